@@ -1,7 +1,20 @@
-import { Plugin, TFolder } from 'obsidian';
-import { FolderConfig, IconocolorSettings, ColorTransformation, FolderConfigWithDeletions } from './types';
-import { applyFolderStyles, getAllFolderElements, getFolderPathFromElement } from './utils/domUtils';
-import { generateGradientColors, generateRepeatingColors, applyHSLTransformation, applyLightnessTransformation, interpolateColor } from './utils/colorUtils';
+import { Plugin, TFile, TFolder } from 'obsidian';
+import { FolderConfig, FileConfig, IconocolorSettings, ColorTransformation, ChildBaseTransformation, FolderConfigWithDeletions, AutoColorMode, ThemeVariant } from './types';
+import { applyFolderStyles, applyFileStyles, buildTreeItemRules, TreeItemStyle, getAllFolderElements, getAllFileElements, getFolderPathFromElement, getFilePathFromElement } from './utils/domUtils';
+import { FolderConfigResolver, isPatternKey } from './utils/pathPatterns';
+import { applyThemeColors, getCurrentTheme, getThemeBackgroundColor, getThemePaletteColors, getThemeTransformation } from './utils/themeUtils';
+import { computeFolderMetrics, getHeatmapPosition } from './utils/folderMetrics';
+import { getFolderTreeOrder } from './utils/folderTree';
+import { generateGradientColors, generateRepeatingColors, pickHashedColor, sampleGradientColor, interpolateColor, blendOverBackground, applyColorTransformation, deriveChildBaseColor, getPerceptualDistance } from './utils/colorUtils';
+
+/**
+ * A saved config whose folder or file no longer exists in the vault
+ */
+export interface OrphanedConfig {
+	path: string; // Config key that no longer resolves
+	kind: 'folder' | 'file'; // Which config map the entry lives in
+	suggestions: string[]; // Existing paths with the same name, best match first
+}
 
 export class FolderManager {
 	private plugin: Plugin;
@@ -12,6 +25,18 @@ export class FolderManager {
 	private rootFoldersCache: string[] | null = null;
 	private rootFoldersCacheTimestamp: number = 0;
 	private readonly ROOT_FOLDERS_CACHE_DURATION = 5000; // 5 seconds
+	private pinSaveTimeout: NodeJS.Timeout | null = null; // Debounced save of newly pinned auto-colors
+	private folderMetricsCache: Map<string, number> | null = null; // Heatmap metric per folder path
+	private heatmapRefreshTimeout: NodeJS.Timeout | null = null;
+	private treeColorsCache: { theme: ThemeVariant; colors: Map<string, string> } | null = null; // Tree-mode color per folder path
+	private depthColorsCache: { theme: ThemeVariant; colors: Map<string, string> } | null = null; // Depth-strategy color per folder path
+	private configResolver = new FolderConfigResolver(); // Pattern lookups, reset when pattern keys change
+	private styleMemo: { baseColors: Map<string, string | undefined>; opacities: Map<string, number> } | null = null; // Per-path results during a full pass
+	private currentTheme = getCurrentTheme(); // Theme the explorer was last styled for
+	private themeBackground = '#262626'; // Explorer background for contrast-safe text, resolved when styling
+	private styleSheet: CSSStyleSheet | null = null; // Managed stylesheet ('stylesheet' render mode), adopted by the document
+	private styleSheetIcons: Map<string, FolderConfig> = new Map(); // Icons to place on rows, from the last compile
+	private styleSheetDirty = true; // Settings or tree changed since the stylesheet was compiled
 
 	constructor(plugin: Plugin, settings: IconocolorSettings) {
 		this.plugin = plugin;
@@ -22,6 +47,11 @@ export class FolderManager {
 	 * Initialize the folder manager and start observing DOM changes
 	 */
 	initialize(): void {
+		// Pins need the full folder list, which is only complete once the vault is indexed
+		this.plugin.app.workspace.onLayoutReady(() => {
+			this.pinAutoColors();
+			this.applyAllStyles();
+		});
 		this.applyAllStyles();
 		this.startObserving();
 	}
@@ -73,7 +103,7 @@ export class FolderManager {
 			}
 			timeout = setTimeout(() => {
 				isApplying = true;
-				this.applyAllStyles();
+				this.applyVisibleStyles();
 				// Reset flag after a short delay
 				setTimeout(() => {
 					isApplying = false;
@@ -89,16 +119,19 @@ export class FolderManager {
 		// Also listen for workspace changes
 		this.plugin.registerEvent(
 			this.plugin.app.workspace.on('layout-change', () => {
-				setTimeout(() => this.applyAllStyles(), 50);
+				setTimeout(() => this.applyVisibleStyles(), 50);
 			})
 		);
 
 		// Listen for vault changes to handle newly created folders
 		this.plugin.registerEvent(
 			this.plugin.app.vault.on('create', (file) => {
+				this.scheduleHeatmapRefresh();
+				this.styleSheetDirty = true;
 				// If a folder was created, wait a bit for it to be fully initialized, then apply styles
 				if (file instanceof TFolder) {
 					this.invalidateRootFoldersCache();
+					this.pinAutoColors();
 					setTimeout(() => {
 						this.applyAllStyles();
 					}, 100);
@@ -106,9 +139,16 @@ export class FolderManager {
 			})
 		);
 
-		// Listen for rename events to apply styles after renaming completes
+		// Listen for rename events to migrate configs and apply styles after renaming completes
 		this.plugin.registerEvent(
-			this.plugin.app.vault.on('rename', (file) => {
+			this.plugin.app.vault.on('rename', (file, oldPath) => {
+				this.scheduleHeatmapRefresh();
+				this.styleSheetDirty = true;
+				// Move configs so styling follows the renamed/moved item
+				this.migrateConfigPaths(oldPath, file.path).catch(error => {
+					console.error('[Iconocolor] Failed to migrate configs after rename:', error);
+				});
+				
 				// After a folder is renamed, apply styles
 				if (file instanceof TFolder) {
 					this.invalidateRootFoldersCache();
@@ -119,6 +159,37 @@ export class FolderManager {
 			})
 		);
 
+		// Listen for delete events to drop configs of items that no longer exist
+		this.plugin.registerEvent(
+			this.plugin.app.vault.on('delete', (file) => {
+				this.scheduleHeatmapRefresh();
+				this.styleSheetDirty = true;
+				if (file instanceof TFolder) {
+					this.invalidateRootFoldersCache();
+				}
+				this.removeConfigsForDeletedPath(file.path).catch(error => {
+					console.error('[Iconocolor] Failed to clean up configs after delete:', error);
+				});
+			})
+		);
+
+		// Re-style when switching between light and dark theme
+		this.plugin.registerEvent(
+			this.plugin.app.workspace.on('css-change', () => {
+				// Theme and snippet changes can both move the background contrast-safe text is measured against
+				if (getCurrentTheme() !== this.currentTheme || getThemeBackgroundColor() !== this.themeBackground) {
+					this.applyAllStyles();
+				}
+			})
+		);
+
+		// Heatmap colors depend on file contents and timestamps
+		this.plugin.registerEvent(
+			this.plugin.app.vault.on('modify', () => {
+				this.scheduleHeatmapRefresh();
+			})
+		);
+
 		// Also listen for focus/blur events on input fields to detect when renaming starts/stops
 		// This helps catch cases where the rename input might not trigger vault events immediately
 		this.fileExplorer = fileExplorer as HTMLElement;
@@ -128,7 +199,7 @@ export class FolderManager {
 			if (target && (target.tagName === 'INPUT' || target.hasAttribute('contenteditable'))) {
 				// User finished editing, apply styles after a short delay
 				setTimeout(() => {
-					this.applyAllStyles();
+					this.applyVisibleStyles();
 				}, 50);
 			}
 		};
@@ -152,20 +223,34 @@ export class FolderManager {
 			this.focusChangeHandler = null;
 			this.fileExplorer = null;
 		}
+		
+		if (this.heatmapRefreshTimeout) {
+			clearTimeout(this.heatmapRefreshTimeout);
+			this.heatmapRefreshTimeout = null;
+		}
+		
+		// Flush pins recorded since the last save
+		if (this.pinSaveTimeout) {
+			clearTimeout(this.pinSaveTimeout);
+			this.pinSaveTimeout = null;
+			this.plugin.saveData(this.settings).catch(console.error);
+		}
+		
+		this.removeStyleSheet();
 	}
 
 	/**
-	 * Check if a folder element is currently being renamed/edited
+	 * Check if a folder or file element is currently being renamed/edited
 	 */
-	private isFolderBeingRenamed(folder: HTMLElement): boolean {
-		// Check if there's an active input field in the folder (indicates renaming)
-		const input = folder.querySelector('input[type="text"]') as HTMLInputElement;
+	private isElementBeingRenamed(element: HTMLElement): boolean {
+		// Check if there's an active input field in the element (indicates renaming)
+		const input = element.querySelector('input[type="text"]') as HTMLInputElement;
 		if (input && document.activeElement === input) {
 			return true;
 		}
 		
 		// Also check for contenteditable elements that are focused
-		const contentEditable = folder.querySelector('[contenteditable="true"]') as HTMLElement;
+		const contentEditable = element.querySelector('[contenteditable="true"]') as HTMLElement;
 		if (contentEditable && document.activeElement === contentEditable) {
 			return true;
 		}
@@ -174,16 +259,72 @@ export class FolderManager {
 	}
 
 	/**
-	 * Apply styles to all folders in the file explorer
+	 * Apply styles to all folders and files in the file explorer
+	 * Call after anything that can change computed styles; in stylesheet mode this also regenerates the stylesheet
 	 */
 	applyAllStyles(): void {
+		this.currentTheme = getCurrentTheme();
+		this.themeBackground = getThemeBackgroundColor();
+		this.styleSheetDirty = true;
+		this.applyVisibleStyles();
+	}
+
+	/**
+	 * Apply styles to the rows currently rendered in the file explorer
+	 * Used when only the explorer DOM changed (expanding folders, scrolling); in stylesheet mode
+	 * colors are already covered by the stylesheet, so rows only get their icons
+	 */
+	private applyVisibleStyles(): void {
+		if (this.settings.renderMode !== 'stylesheet') {
+			this.removeStyleSheet();
+		} else if (!this.styleSheetDirty) {
+			// Colors are covered by the stylesheet; only newly rendered rows with icons need work
+			this.applyStyleSheetIcons();
+			return;
+		} else {
+			this.renderStyleSheet();
+		}
+		// Full pass: also clears icons and inline colors rows no longer need
+		this.applyAllFolderStyles();
+		this.applyAllFileStyles();
+	}
+
+	/**
+	 * Place icons from the compiled stylesheet on rendered rows (stylesheet mode, between recompiles)
+	 * Rows without an icon are left untouched
+	 */
+	private applyStyleSheetIcons(): void {
+		if (this.styleSheetIcons.size === 0) return;
+		const iconSize = this.settings.iconSize || 16;
+		
+		for (const folder of getAllFolderElements()) {
+			const folderPath = getFolderPathFromElement(folder);
+			const icon = folderPath ? this.styleSheetIcons.get(folderPath) : undefined;
+			if (icon && !this.isElementBeingRenamed(folder)) {
+				applyFolderStyles(folder, icon, this.plugin.manifest.id, iconSize, this.plugin.app);
+			}
+		}
+		for (const fileEl of getAllFileElements()) {
+			const filePath = getFilePathFromElement(fileEl);
+			const icon = filePath ? this.styleSheetIcons.get(filePath) : undefined;
+			if (icon && !this.isElementBeingRenamed(fileEl)) {
+				applyFileStyles(fileEl, icon, this.plugin.manifest.id, iconSize, this.plugin.app);
+			}
+		}
+	}
+
+	/**
+	 * Apply styles to all folders in the file explorer
+	 */
+	private applyAllFolderStyles(): void {
 		const folders = getAllFolderElements();
 		const iconSize = this.settings.iconSize || 16;
+		const useStyleSheet = this.settings.renderMode === 'stylesheet';
 		
 		for (const folder of folders) {
 			try {
 				// Skip folders that are currently being renamed/edited to prevent cursor jumping
-				if (this.isFolderBeingRenamed(folder)) {
+				if (this.isElementBeingRenamed(folder)) {
 					continue;
 				}
 
@@ -198,34 +339,16 @@ export class FolderManager {
 					continue;
 				}
 
-				// Get computed colors for this folder (base color + transformations)
-				const computedColors = this.getComputedColors(folderPath);
-				
-				// Build config from computed colors
-				const config: FolderConfig = {
-					icon: this.getConfigForPath(folderPath)?.icon,
-					iconColor: computedColors.iconColor,
-					folderColor: computedColors.folderColor,
-					textColor: computedColors.textColor,
-				};
-				
-				// Apply default icon if no explicit icon is set
-				if (!config.icon && this.settings.defaultIconRules) {
-					const defaultIcon = this.getDefaultIconForPath(folderPath, 'folder');
-					if (defaultIcon) {
-						config.icon = defaultIcon.icon;
-						if (defaultIcon.iconColor && !config.iconColor) {
-							config.iconColor = defaultIcon.iconColor;
-						}
-					}
+				// Colors come from the generated stylesheet, only the icon lives on the row
+				if (useStyleSheet) {
+					applyFolderStyles(folder, this.styleSheetIcons.get(folderPath) ?? {}, this.plugin.manifest.id, iconSize, this.plugin.app);
+					continue;
 				}
-				
-				// Calculate opacity for this folder (only if it has a background color)
-				// Opacity accumulates per nesting level, but only applies if folder has a color
-				const finalOpacity = config.folderColor ? this.getComputedOpacity(folderPath) : this.settings.folderColorOpacity;
+
+				const { config, opacity } = this.getFolderRowStyle(folderPath);
 				
 				// Always call applyFolderStyles
-				applyFolderStyles(folder, config, this.plugin.manifest.id, iconSize, this.plugin.app, finalOpacity);
+				applyFolderStyles(folder, config, this.plugin.manifest.id, iconSize, this.plugin.app, opacity);
 			} catch (error) {
 				// Silently skip folders that cause errors (e.g., during creation)
 				// They will be processed on the next update once they're fully initialized
@@ -235,6 +358,196 @@ export class FolderManager {
 		}
 	}
 
+	/**
+	 * Apply styles to all files in the file explorer
+	 * Files use their own config if set, otherwise the containing folder's base color and default icon rules
+	 */
+	private applyAllFileStyles(): void {
+		const files = getAllFileElements();
+		const iconSize = this.settings.iconSize || 16;
+		const useStyleSheet = this.settings.renderMode === 'stylesheet';
+		
+		for (const fileEl of files) {
+			try {
+				// Skip files that are currently being renamed/edited to prevent cursor jumping
+				if (this.isElementBeingRenamed(fileEl)) {
+					continue;
+				}
+
+				const filePath = getFilePathFromElement(fileEl);
+				if (!filePath) continue;
+
+				const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+				if (!file || !(file instanceof TFile)) {
+					continue;
+				}
+
+				if (useStyleSheet) {
+					applyFileStyles(fileEl, this.styleSheetIcons.get(filePath) ?? {}, this.plugin.manifest.id, iconSize, this.plugin.app);
+					continue;
+				}
+
+				const { config, opacity } = this.getFileRowStyle(file);
+				
+				applyFileStyles(fileEl, config, this.plugin.manifest.id, iconSize, this.plugin.app, opacity);
+			} catch (error) {
+				console.debug('[Iconocolor] Skipping file due to error:', error);
+				continue;
+			}
+		}
+	}
+
+	/**
+	 * Compute everything a folder row displays: icon, colors and background opacity
+	 */
+	private getFolderRowStyle(folderPath: string): { config: FolderConfig; opacity: number } {
+		// Get computed colors for this folder (base color + transformations)
+		const computedColors = this.getComputedColors(folderPath);
+		
+		// Build config from computed colors
+		const config: FolderConfig = {
+			icon: this.getConfigForPath(folderPath)?.icon,
+			iconColor: computedColors.iconColor,
+			folderColor: computedColors.folderColor,
+			textColor: computedColors.textColor,
+		};
+		
+		// Apply default icon if no explicit icon is set
+		if (!config.icon && this.settings.defaultIconRules) {
+			const defaultIcon = this.getDefaultIconForPath(folderPath, 'folder');
+			if (defaultIcon) {
+				config.icon = defaultIcon.icon;
+				if (defaultIcon.iconColor && !config.iconColor) {
+					config.iconColor = defaultIcon.iconColor;
+				}
+			}
+		}
+		
+		// Calculate opacity for this folder (only if it has a background color)
+		// Opacity accumulates per nesting level, but only applies if folder has a color
+		const opacity = config.folderColor ? this.getComputedOpacity(folderPath) : this.settings.folderColorOpacity;
+		
+		return { config, opacity };
+	}
+
+	/**
+	 * Compute everything a file row displays: icon, colors and background opacity
+	 */
+	private getFileRowStyle(file: TFile): { config: FolderConfig; opacity: number } {
+		const filePath = file.path;
+		const computedColors = this.getComputedFileColors(filePath);
+		const config: FolderConfig = {
+			icon: this.getOwnFileConfig(filePath)?.icon,
+			iconColor: computedColors.iconColor,
+			folderColor: computedColors.folderColor,
+			textColor: computedColors.textColor,
+		};
+		
+		// Apply default icon if no explicit icon is set
+		// Markdown rules take precedence, then generic file rules
+		if (!config.icon && this.settings.defaultIconRules) {
+			const defaultIcon = (file.extension === 'md' ? this.getDefaultIconForPath(filePath, 'markdown') : null)
+				|| this.getDefaultIconForPath(filePath, 'base');
+			if (defaultIcon) {
+				config.icon = defaultIcon.icon;
+				if (defaultIcon.iconColor && !config.iconColor) {
+					config.iconColor = defaultIcon.iconColor;
+				}
+			}
+		}
+		
+		const opacity = config.folderColor ? this.getComputedOpacity(filePath) : this.settings.folderColorOpacity;
+		
+		return { config, opacity };
+	}
+
+	/**
+	 * Compute the row style of every folder and file in the vault, rendered or not
+	 * Rows without an icon or colors are left out
+	 */
+	getAllTreeItemStyles(): TreeItemStyle[] {
+		this.currentTheme = getCurrentTheme();
+		this.themeBackground = getThemeBackgroundColor();
+		
+		// Every row shares its ancestors' base colors and opacities, so compute each path once
+		this.styleMemo = { baseColors: new Map(), opacities: new Map() };
+		try {
+			return this.collectTreeItemStyles();
+		} finally {
+			this.styleMemo = null;
+		}
+	}
+
+	/**
+	 * Collect the styles for getAllTreeItemStyles (runs with styleMemo set)
+	 */
+	private collectTreeItemStyles(): TreeItemStyle[] {
+		const styles: TreeItemStyle[] = [];
+		
+		for (const folder of this.plugin.app.vault.getAllFolders()) {
+			try {
+				const { config, opacity } = this.getFolderRowStyle(folder.path);
+				if (config.icon || config.folderColor || config.textColor) {
+					styles.push({ kind: 'folder', path: folder.path, config, opacity });
+				}
+			} catch (error) {
+				console.debug('[Iconocolor] Skipping folder due to error:', error);
+			}
+		}
+		for (const file of this.plugin.app.vault.getFiles()) {
+			try {
+				const { config, opacity } = this.getFileRowStyle(file);
+				if (config.icon || config.folderColor || config.textColor) {
+					styles.push({ kind: 'file', path: file.path, config, opacity });
+				}
+			} catch (error) {
+				console.debug('[Iconocolor] Skipping file due to error:', error);
+			}
+		}
+		
+		return styles;
+	}
+
+	/**
+	 * Compile the colors of every folder and file in the vault into the managed stylesheet
+	 * Covers rows that aren't rendered yet, so it only needs regenerating when settings or the tree change
+	 */
+	private renderStyleSheet(): void {
+		this.styleSheetDirty = false;
+		const icons = new Map<string, FolderConfig>();
+		const rules: string[] = [];
+		
+		for (const { kind, path, config, opacity } of this.getAllTreeItemStyles()) {
+			if (config.icon) {
+				icons.set(path, { icon: config.icon, iconColor: config.iconColor });
+			}
+			const rule = buildTreeItemRules(kind, path, config, opacity);
+			if (rule) {
+				rules.push(rule);
+			}
+		}
+		
+		this.styleSheetIcons = icons;
+		if (!this.styleSheet) {
+			this.styleSheet = new CSSStyleSheet();
+			document.adoptedStyleSheets = [...document.adoptedStyleSheets, this.styleSheet];
+		}
+		this.styleSheet.replaceSync(rules.join('\n'));
+	}
+
+	/**
+	 * Remove the managed stylesheet (inline mode, or when the plugin unloads)
+	 */
+	private removeStyleSheet(): void {
+		if (this.styleSheet) {
+			const sheet = this.styleSheet;
+			document.adoptedStyleSheets = document.adoptedStyleSheets.filter(adopted => adopted !== sheet);
+			this.styleSheet = null;
+		}
+		this.styleSheetIcons.clear();
+		this.styleSheetDirty = true;
+	}
+
 	/**
 	 * Get all root-level folders (folders at the root of the vault)
 	 * Uses the vault API to get actual folder count, not just rendered ones
@@ -274,40 +587,96 @@ export class FolderManager {
 	}
 	
 	/**
-	 * Invalidate root folders cache (call when folders are created/renamed/deleted)
+	 * Invalidate root folders, tree-mode and depth color caches (call when folders are created/renamed/deleted)
 	 */
 	private invalidateRootFoldersCache(): void {
 		this.rootFoldersCache = null;
 		this.rootFoldersCacheTimestamp = 0;
+		this.treeColorsCache = null;
+		this.depthColorsCache = null;
+	}
+
+
+	/**
+	 * Resolve the base color a folder or file gets, for previews outside the explorer (e.g. the config modal)
+	 * overrideConfig stands in for the path's saved config, such as edits that aren't saved yet
+	 */
+	getBaseColorForPath(path: string, kind: 'folder' | 'file' = 'folder', overrideConfig?: FolderConfig): string | undefined {
+		this.currentTheme = getCurrentTheme();
+		if (kind === 'file') {
+			const config = overrideConfig ? applyThemeColors(overrideConfig, this.currentTheme) : this.getOwnFileConfig(path);
+			return config?.baseColor || this.getFileBaseColor(path);
+		}
+		if (!overrideConfig) {
+			return this.getBaseColor(path);
+		}
+		return this.computeBaseColor(path, applyThemeColors(overrideConfig, this.currentTheme));
+	}
+
+	/**
+	 * Get the background opacity a folder or file row is rendered with (0-100)
+	 * Only ancestors and the global setting affect it, so pending edits to the item itself don't matter
+	 */
+	getOpacityForPath(path: string): number {
+		return this.getComputedOpacity(path);
 	}
 
+	/**
+	 * Get base color for a folder, memoized while a full pass (getAllTreeItemStyles) runs
+	 */
+	private getBaseColor(folderPath: string): string | undefined {
+		const memo = this.styleMemo?.baseColors;
+		if (memo?.has(folderPath)) {
+			return memo.get(folderPath);
+		}
+		const baseColor = this.computeBaseColor(folderPath);
+		memo?.set(folderPath, baseColor);
+		return baseColor;
+	}
 
 	/**
-	 * Get base color for a folder
+	 * Compute base color for a folder
 	 * - If folder has explicit baseColor, use it
+	 * - If the depth strategy is selected, get from the palette for the folder's nesting level
 	 * - If root folder and auto-color enabled, get from palette
 	 * - If subfolder and parent allows inheritance, get from parent with transformation
 	 * - Otherwise, return undefined
 	 */
-	private getBaseColor(folderPath: string): string | undefined {
+	private computeBaseColor(folderPath: string, ownConfig: FolderConfig | undefined = this.getOwnConfig(folderPath)): string | undefined {
 		const pathParts = folderPath.split('/');
 		const isRootFolder = pathParts.length === 1;
 		
 		// Check for explicit base color
-		const config = this.settings.folderConfigs[folderPath];
-		if (config?.baseColor) {
-			return config.baseColor;
+		if (ownConfig?.baseColor) {
+			return ownConfig.baseColor;
+		}
+		
+		// Depth strategy replaces auto-coloring and inheritance; only a parent's Auto-color children goes first
+		if (this.settings.baseColorStrategy === 'depth') {
+			return (isRootFolder ? undefined : this.getChildAutoColor(folderPath)) ?? this.getDepthColor(folderPath);
 		}
 		
 		// Root folder: get from palette if auto-color enabled
 		if (isRootFolder && this.settings.autoColorEnabled) {
-			const rootFolders = this.getRootFolders();
-			const rootIndex = rootFolders.indexOf(folderPath);
-			if (rootIndex >= 0) {
-				const autoColors = this.generateAutoColors(rootFolders);
-				if (rootIndex < autoColors.length) {
-					return autoColors[rootIndex];
-				}
+			const autoColor = this.assignAutoColor(folderPath, this.getRootFolders(), this.settings.activePaletteIndex, this.settings.autoColorMode);
+			if (autoColor) {
+				return autoColor;
+			}
+		}
+		
+		// Subfolder: parent opted in to auto-coloring its children
+		if (!isRootFolder) {
+			const childAutoColor = this.getChildAutoColor(folderPath);
+			if (childAutoColor) {
+				return childAutoColor;
+			}
+		}
+		
+		// Subfolder: tree mode gives every folder its own place on the palette gradient
+		if (!isRootFolder && this.settings.autoColorEnabled && this.settings.autoColorMode === 'tree') {
+			const treeColor = this.getTreeAutoColor(folderPath);
+			if (treeColor) {
+				return treeColor;
 			}
 		}
 		
@@ -318,7 +687,7 @@ export class FolderManager {
 			let canInherit = true;
 			for (let i = pathParts.length - 1; i > 0; i--) {
 				const ancestorPath = pathParts.slice(0, i).join('/');
-				const ancestorConfig = this.settings.folderConfigs[ancestorPath];
+				const ancestorConfig = this.getOwnConfig(ancestorPath);
 				if (ancestorConfig && ancestorConfig.inheritBaseColor === false) {
 					canInherit = false;
 					break;
@@ -331,10 +700,7 @@ export class FolderManager {
 				if (parentBaseColor) {
 					// Apply child base transformation
 					const transformedColor = this.applyChildBaseTransformation(parentBaseColor, folderPath, parentPath);
-					// If transformation type is 'none', return undefined (no inheritance)
-					if (transformedColor === '' && this.settings.childBaseTransformation.type === 'none') {
-						return undefined;
-					}
+					// An empty result means the transformation is 'none' (no inheritance)
 					return transformedColor || undefined;
 				}
 			}
@@ -344,10 +710,24 @@ export class FolderManager {
 	}
 
 	/**
-	 * Get computed opacity for a folder (accumulates per nesting level)
-	 * Only applies if the folder can inherit (checks all ancestors up to root)
+	 * Get computed opacity for a folder, memoized while a full pass (getAllTreeItemStyles) runs
 	 */
 	private getComputedOpacity(folderPath: string): number {
+		const memo = this.styleMemo?.opacities;
+		const cached = memo?.get(folderPath);
+		if (cached !== undefined) {
+			return cached;
+		}
+		const opacity = this.computeOpacity(folderPath);
+		memo?.set(folderPath, opacity);
+		return opacity;
+	}
+
+	/**
+	 * Compute opacity for a folder (accumulates per nesting level)
+	 * Only applies if the folder can inherit (checks all ancestors up to root)
+	 */
+	private computeOpacity(folderPath: string): number {
 		const pathParts = folderPath.split('/');
 		const isRootFolder = pathParts.length === 1;
 		
@@ -356,12 +736,20 @@ export class FolderManager {
 			return this.settings.folderColorOpacity;
 		}
 		
+		// Auto-colored children start a new color chain, like root folders
+		// (in tree mode and with the depth strategy every folder is colored directly)
+		const parentPath = pathParts.slice(0, -1).join('/');
+		const colorsDirectly = (this.settings.autoColorEnabled && this.settings.autoColorMode === 'tree') || this.settings.baseColorStrategy === 'depth';
+		if (this.getOwnConfig(parentPath)?.childAutoColor || colorsDirectly) {
+			return this.settings.folderColorOpacity;
+		}
+		
 		// Check if ANY ancestor has inheritance disabled
 		// If so, this folder should not inherit opacity (use global)
 		let canInherit = true;
 		for (let i = pathParts.length - 1; i > 0; i--) {
 			const ancestorPath = pathParts.slice(0, i).join('/');
-			const ancestorConfig = this.settings.folderConfigs[ancestorPath];
+			const ancestorConfig = this.getOwnConfig(ancestorPath);
 			if (ancestorConfig && ancestorConfig.inheritBaseColor === false) {
 				canInherit = false;
 				break;
@@ -374,13 +762,13 @@ export class FolderManager {
 		}
 		
 		// Get parent's computed opacity (recursive)
-		const parentPath = pathParts.slice(0, -1).join('/');
 		const parentOpacity = this.getComputedOpacity(parentPath);
 		
 		// Apply child base transformation opacity (multiplicative)
 		// backgroundOpacity is a percentage (0-100), so we multiply by it
-		const childOpacityFactor = this.settings.childBaseTransformation.backgroundOpacity !== undefined 
-			? this.settings.childBaseTransformation.backgroundOpacity / 100 
+		const childTransformation = this.getChildTransformation(parentPath);
+		const childOpacityFactor = childTransformation.backgroundOpacity !== undefined 
+			? childTransformation.backgroundOpacity / 100 
 			: 1.0;
 		
 		return Math.max(0, Math.min(100, parentOpacity * childOpacityFactor));
@@ -388,33 +776,53 @@ export class FolderManager {
 
 	/**
 	 * Apply child base transformation to get child's base color from parent's base color
+	 * Returns an empty string when children don't inherit
 	 */
 	private applyChildBaseTransformation(parentBaseColor: string, childPath: string, parentPath: string): string {
-		const transformation = this.settings.childBaseTransformation;
-		
-		// If type is 'none', children don't inherit - return undefined to signal no inheritance
-		if (transformation.type === 'none') {
-			return ''; // Return empty string to signal no inheritance
-		}
+		const { transformation, ownerPath } = this.findChildTransformation(parentPath);
 		
-		// First, apply gradient if enabled (interpolate between parent and next sibling)
-		let baseColor = parentBaseColor;
-		if (transformation.useGradient) {
-			baseColor = this.applyGradientTransformation(parentBaseColor, childPath, parentPath);
-		}
+		// The per-depth table counts levels below the folder that owns the transformation
+		// (a root folder for the global setting), so level 1 is that folder's direct child
+		const level = childPath.split('/').length - ownerPath.split('/').length;
 		
-		// Then apply the selected transformation (lightness or HSL)
-		if (transformation.type === 'hsl') {
-			return applyHSLTransformation(baseColor, {
-				hue: transformation.hue,
-				saturation: transformation.saturation,
-				lightness: transformation.lightness,
-			});
-		} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
-			return applyLightnessTransformation(baseColor, transformation.adjustment);
+		// Gradient interpolates between parent and next sibling before the transformation
+		const baseColor = transformation.useGradient
+			? this.applyGradientTransformation(parentBaseColor, childPath, parentPath)
+			: parentBaseColor;
+		return deriveChildBaseColor(baseColor, transformation, level, this.themeBackground, this.settings.gradientInterpolation) ?? '';
+	}
+
+	/**
+	 * Get the child base transformation used for children of a folder
+	 * The nearest folder (the parent itself or an ancestor) with its own childTransformation wins,
+	 * otherwise the global setting applies
+	 */
+	private getChildTransformation(parentPath: string): ChildBaseTransformation {
+		return this.findChildTransformation(parentPath).transformation;
+	}
+
+	/**
+	 * Get the child base transformation used for children of a folder
+	 * An override config stands in for the folder's own saved config (the folder config modal's pending edits)
+	 */
+	getChildTransformationForPath(parentPath: string, overrideConfig?: FolderConfig): ChildBaseTransformation {
+		return this.findChildTransformation(parentPath, overrideConfig).transformation;
+	}
+
+	/**
+	 * Find the child base transformation for children of a folder along with the folder that owns it
+	 * The global setting is owned by the parent's root folder
+	 */
+	private findChildTransformation(parentPath: string, parentConfig = this.getOwnConfig(parentPath)): { transformation: ChildBaseTransformation; ownerPath: string } {
+		const pathParts = parentPath.split('/');
+		for (let i = pathParts.length; i > 0; i--) {
+			const ownerPath = pathParts.slice(0, i).join('/');
+			const config = i === pathParts.length ? parentConfig : this.getOwnConfig(ownerPath);
+			if (config?.childTransformation) {
+				return { transformation: config.childTransformation, ownerPath };
+			}
 		}
-		
-		return baseColor;
+		return { transformation: this.settings.childBaseTransformation, ownerPath: pathParts[0] };
 	}
 
 	/**
@@ -479,7 +887,7 @@ export class FolderManager {
 		const clampedStep = Math.max(0, Math.min(1, step));
 		
 		// Interpolate between parent and next sibling
-		return interpolateColor(parentBaseColor, nextSiblingBaseColor, clampedStep);
+		return interpolateColor(parentBaseColor, nextSiblingBaseColor, clampedStep, this.settings.gradientInterpolation);
 	}
 
 	/**
@@ -508,18 +916,8 @@ export class FolderManager {
 	/**
 	 * Apply transformation to get element color from base color
 	 */
-	private applyTransformation(baseColor: string, transformation: ColorTransformation): string {
-		if (transformation.type === 'hsl') {
-			return applyHSLTransformation(baseColor, {
-				hue: transformation.hue,
-				saturation: transformation.saturation,
-				lightness: transformation.lightness,
-			});
-		} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
-			return applyLightnessTransformation(baseColor, transformation.adjustment);
-		}
-		
-		return baseColor; // 'none' transformation
+	private applyTransformation(baseColor: string, transformation: ColorTransformation, background?: string): string {
+		return applyColorTransformation(baseColor, transformation, background ?? this.themeBackground, this.settings.gradientInterpolation);
 	}
 
 	/**
@@ -528,9 +926,18 @@ export class FolderManager {
 	 * Explicit colors in config override transformations
 	 */
 	private getComputedColors(folderPath: string): { iconColor?: string; folderColor?: string; textColor?: string } {
-		const config = this.settings.folderConfigs[folderPath];
+		// Explicit colors can come from the folder itself or be inherited via applyToSubfolders
+		const config = this.getConfigForPath(folderPath) ?? undefined;
 		const baseColor = this.getBaseColor(folderPath);
-		
+		return this.deriveColors(config, baseColor, folderPath);
+	}
+
+	/**
+	 * Derive icon, background and text colors from a base color
+	 * Explicit colors in config override transformations
+	 * The path is used to measure contrast-safe text against the background as rendered
+	 */
+	private deriveColors(config: FileConfig | undefined, baseColor: string | undefined, path: string): { iconColor?: string; folderColor?: string; textColor?: string } {
 		const result: { iconColor?: string; folderColor?: string; textColor?: string } = {};
 		
 		// If explicit colors are set, use them (they override transformations)
@@ -538,26 +945,59 @@ export class FolderManager {
 			result.iconColor = config.iconColor;
 		} else if (baseColor) {
 			// Apply transformation to get icon color from base
-			result.iconColor = this.applyTransformation(baseColor, this.settings.iconColorTransformation);
+			result.iconColor = this.applyTransformation(baseColor, getThemeTransformation(this.settings, 'iconColorTransformation', this.currentTheme));
 		}
 		
 		if (config?.folderColor !== undefined) {
 			result.folderColor = config.folderColor;
 		} else if (baseColor) {
 			// Apply transformation to get folder color from base
-			result.folderColor = this.applyTransformation(baseColor, this.settings.folderColorTransformation);
+			result.folderColor = this.applyTransformation(baseColor, getThemeTransformation(this.settings, 'folderColorTransformation', this.currentTheme));
 		}
 		
 		if (config?.textColor !== undefined) {
 			result.textColor = config.textColor;
 		} else if (baseColor) {
 			// Apply transformation to get text color from base
-			result.textColor = this.applyTransformation(baseColor, this.settings.textColorTransformation);
+			// Contrast is measured against the folder color blended at its opacity over the theme background
+			const background = result.folderColor
+				? blendOverBackground(result.folderColor, this.themeBackground, this.getComputedOpacity(path))
+				: this.themeBackground;
+			result.textColor = this.applyTransformation(baseColor, getThemeTransformation(this.settings, 'textColorTransformation', this.currentTheme), background);
 		}
 		
 		return result;
 	}
 
+	/**
+	 * Get base color for a file: the containing folder's computed base color
+	 * Returns undefined for files at the vault root or when the folder disables inheritance
+	 */
+	private getFileBaseColor(filePath: string): string | undefined {
+		const pathParts = filePath.split('/');
+		if (pathParts.length === 1) {
+			return undefined;
+		}
+		
+		const parentPath = pathParts.slice(0, -1).join('/');
+		const parentConfig = this.getOwnConfig(parentPath);
+		if (parentConfig && parentConfig.inheritBaseColor === false) {
+			return undefined;
+		}
+		
+		return this.getBaseColor(parentPath);
+	}
+
+	/**
+	 * Get computed colors for a file
+	 * Uses the file's own base color if set, otherwise the inherited one; explicit colors override transformations
+	 */
+	private getComputedFileColors(filePath: string): { iconColor?: string; folderColor?: string; textColor?: string } {
+		const config = this.getOwnFileConfig(filePath);
+		const baseColor = config?.baseColor || this.getFileBaseColor(filePath);
+		return this.deriveColors(config, baseColor, filePath);
+	}
+
 	/**
 	 * Get default icon for a path based on enabled rules
 	 */
@@ -593,44 +1033,336 @@ export class FolderManager {
 		return null;
 	}
 
+	/**
+	 * Get the config that applies directly to a folder (exact path, then first matching pattern)
+	 * Colors are resolved for the current theme
+	 */
+	private getOwnConfig(path: string): FolderConfig | undefined {
+		return applyThemeColors(this.configResolver.resolve(this.settings.folderConfigs, path), this.currentTheme);
+	}
+
+	/**
+	 * Get a file's config with colors resolved for the current theme
+	 */
+	private getOwnFileConfig(path: string): FileConfig | undefined {
+		return applyThemeColors(this.settings.fileConfigs[path], this.currentTheme);
+	}
+
 	/**
 	 * Get configuration for a folder path (checking parent folders if needed)
+	 * The folder's own config (exact entry, else first matching pattern) is merged per field
+	 * with ancestors that have applyToSubfolders: for icon, iconColor, folderColor and textColor
+	 * the nearest defined value wins. Ancestors skip descendants beyond their subfolderDepth
+	 * or inside their subfolderExclusions.
 	 */
 	getConfigForPath(path: string): FolderConfig | null {
-		// Check exact match first
-		if (this.settings.folderConfigs[path]) {
-			return this.settings.folderConfigs[path];
-		}
+		const ownConfig = this.getOwnConfig(path);
+		const merged: FolderConfig = ownConfig ? { ...ownConfig } : {};
+		let found = ownConfig !== undefined;
 
-		// Check parent folders
+		// Walk ancestors nearest first, filling in fields that are still missing
 		const pathParts = path.split('/');
 		for (let i = pathParts.length - 1; i > 0; i--) {
 			const parentPath = pathParts.slice(0, i).join('/');
-			const parentConfig = this.settings.folderConfigs[parentPath];
+			const parentConfig = this.getOwnConfig(parentPath);
 			
-			if (parentConfig && parentConfig.applyToSubfolders) {
-				return parentConfig;
+			if (!parentConfig || !parentConfig.applyToSubfolders) {
+				continue;
+			}
+			if (!this.ancestorAppliesTo(parentConfig, pathParts.slice(i))) {
+				continue;
 			}
+			
+			found = true;
+			if (merged.icon === undefined && parentConfig.icon !== undefined) merged.icon = parentConfig.icon;
+			if (merged.iconColor === undefined && parentConfig.iconColor !== undefined) merged.iconColor = parentConfig.iconColor;
+			if (merged.folderColor === undefined && parentConfig.folderColor !== undefined) merged.folderColor = parentConfig.folderColor;
+			if (merged.textColor === undefined && parentConfig.textColor !== undefined) merged.textColor = parentConfig.textColor;
 		}
 
-		return null;
+		return found ? merged : null;
+	}
+
+	/**
+	 * Check whether an ancestor's applyToSubfolders reaches a descendant
+	 * relativeParts: the descendant's path segments below the ancestor
+	 */
+	private ancestorAppliesTo(ancestorConfig: FolderConfig, relativeParts: string[]): boolean {
+		if (ancestorConfig.subfolderDepth !== undefined && relativeParts.length > ancestorConfig.subfolderDepth) {
+			return false;
+		}
+		
+		const relativePath = relativeParts.join('/');
+		for (const exclusion of ancestorConfig.subfolderExclusions || []) {
+			const normalized = exclusion.replace(/^\/+|\/+$/g, '');
+			if (normalized && (relativePath === normalized || relativePath.startsWith(normalized + '/'))) {
+				return false;
+			}
+		}
+		
+		return true;
 	}
 
 
 	/**
-	 * Generate auto-colors for root folders (helper method)
+	 * Generate count colors from a palette in gradient or repeat mode
+	 * Falls back to the active palette if the index no longer exists
 	 */
-	private generateAutoColors(rootFolders: string[]): string[] {
-		if (rootFolders.length === 0) return [];
+	private generatePaletteColors(paletteIndex: number | undefined, mode: 'gradient' | 'repeat', count: number, themed = true): string[] {
+		if (count === 0) return [];
 		
-		const activePalette = this.settings.colorPalettes[this.settings.activePaletteIndex];
-		if (!activePalette || activePalette.colors.length === 0) return [];
+		const palette = this.getPaletteColors(paletteIndex, themed);
+		if (palette.length === 0) return [];
 		
-		if (this.settings.autoColorMode === 'gradient') {
-			return generateGradientColors(activePalette.colors, rootFolders.length);
+		if (mode === 'gradient') {
+			return generateGradientColors(palette, count, this.settings.gradientInterpolation);
 		} else {
-			return generateRepeatingColors(activePalette.colors, rootFolders.length);
+			return generateRepeatingColors(palette, count);
+		}
+	}
+
+	/**
+	 * Get a palette's colors, falling back to the active palette if the index no longer exists
+	 * themed: use the current theme's variant (if the palette has one) instead of the shared colors
+	 */
+	private getPaletteColors(paletteIndex: number | undefined, themed = true): string[] {
+		const palette = (paletteIndex !== undefined && this.settings.colorPalettes[paletteIndex])
+			|| this.settings.colorPalettes[this.settings.activePaletteIndex];
+		if (!palette) return [];
+		return themed ? getThemePaletteColors(palette, this.currentTheme) : palette.colors;
+	}
+
+	/**
+	 * Pick the auto-color for a folder among its siblings, using the configured assignment strategy
+	 * siblings are the sorted names of every folder sharing the same parent (including this one)
+	 */
+	private assignAutoColor(folderPath: string, siblings: string[], paletteIndex: number | undefined, mode: AutoColorMode): string | undefined {
+		const name = folderPath.split('/').pop() || '';
+		const strategy = this.settings.autoColorAssignment;
+		const parentPrefix = folderPath.slice(0, folderPath.length - name.length);
+		
+		// Tree: the folder's place in the whole explorer picks the color, so siblings and the assignment strategy don't apply
+		if (mode === 'tree') {
+			return this.getTreeAutoColor(folderPath);
+		}
+		
+		// Heatmap: the folder's activity picks the color, so the assignment strategy doesn't apply
+		if (mode === 'heatmap') {
+			const palette = this.getPaletteColors(paletteIndex);
+			if (palette.length === 0) return undefined;
+			const siblingPaths = siblings.map(sibling => parentPrefix + sibling);
+			const position = getHeatmapPosition(this.getFolderMetrics(), folderPath, siblingPaths, this.settings.heatmapMetric);
+			return sampleGradientColor(palette, position, this.settings.gradientInterpolation);
+		}
+		
+		if (strategy === 'hash') {
+			return pickHashedColor(this.getPaletteColors(paletteIndex), name, mode, this.settings.gradientInterpolation);
+		}
+		
+		const colors = this.generatePaletteColors(paletteIndex, mode, siblings.length);
+		const index = siblings.indexOf(name);
+		if (index < 0 || index >= colors.length) {
+			return undefined;
+		}
+		
+		if (strategy !== 'pinned') {
+			return colors[index];
+		}
+		
+		// Pins record shared palette colors, then map to the same slot in the theme's palette
+		// Pins are recorded by pinAutoColors; until then show the color the folder will be pinned to
+		const sharedColors = this.generatePaletteColors(paletteIndex, mode, siblings.length, false);
+		const pin = this.settings.pinnedAutoColors[folderPath] ?? this.pickPinColor(folderPath, siblings, sharedColors);
+		const slot = sharedColors.indexOf(pin);
+		if (slot >= 0 && slot < colors.length) {
+			return colors[slot];
+		}
+		
+		// The pin's slot is gone (e.g. a gradient after the sibling count changed): a palette without
+		// a variant for this theme keeps the pin as is, otherwise the nearest slot's theme color is used
+		if (colors.every((color, i) => color === sharedColors[i])) {
+			return pin;
+		}
+		let nearest = 0;
+		sharedColors.forEach((color, i) => {
+			if (getPerceptualDistance(pin, color) < getPerceptualDistance(pin, sharedColors[nearest])) {
+				nearest = i;
+			}
+		});
+		return colors[nearest] ?? pin;
+	}
+
+	/**
+	 * Choose the shared palette color a folder gets pinned to the first time it is colored:
+	 * its index color unless a sibling already pinned it, otherwise the first color no sibling is using
+	 */
+	private pickPinColor(folderPath: string, siblings: string[], sharedColors: string[]): string {
+		const name = folderPath.split('/').pop() || '';
+		const parentPrefix = folderPath.slice(0, folderPath.length - name.length);
+		const index = siblings.indexOf(name);
+		const used = new Set(siblings.map(sibling => this.settings.pinnedAutoColors[parentPrefix + sibling]).filter(Boolean));
+		return !used.has(sharedColors[index]) ? sharedColors[index] : (sharedColors.find(c => !used.has(c)) ?? sharedColors[index]);
+	}
+
+	/**
+	 * Record pins for auto-colored folders that don't have one yet ('pinned' assignment)
+	 * Runs as its own step (startup, folder creation, rebalance, settings changes) over every folder
+	 * in sorted order, so colors never depend on which rows happened to render first
+	 */
+	private pinAutoColors(): void {
+		if (this.settings.autoColorAssignment !== 'pinned') {
+			return;
+		}
+		
+		let changed = false;
+		const pinSiblings = (parentPrefix: string, siblings: string[], paletteIndex: number | undefined, mode: AutoColorMode) => {
+			// Heatmap and tree colors come from the folder itself, not from a pinned slot
+			if (mode === 'heatmap' || mode === 'tree') return;
+			const sharedColors = this.generatePaletteColors(paletteIndex, mode, siblings.length, false);
+			if (sharedColors.length === 0) return;
+			for (const sibling of siblings) {
+				const path = parentPrefix + sibling;
+				// Folders with their own base color never reach auto-coloring
+				if (this.settings.pinnedAutoColors[path] || this.getOwnConfig(path)?.baseColor) continue;
+				this.settings.pinnedAutoColors[path] = this.pickPinColor(path, siblings, sharedColors);
+				changed = true;
+			}
+		};
+		
+		if (this.settings.autoColorEnabled && this.settings.baseColorStrategy !== 'depth') {
+			pinSiblings('', this.getRootFolders(), this.settings.activePaletteIndex, this.settings.autoColorMode);
+		}
+		for (const folder of this.plugin.app.vault.getAllFolders()) {
+			const autoColor = this.getOwnConfig(folder.path)?.childAutoColor;
+			if (autoColor) {
+				pinSiblings(folder.path + '/', this.getChildrenFolders(folder.path), autoColor.paletteIndex, autoColor.mode);
+			}
+		}
+		
+		if (changed) {
+			this.schedulePinSave();
+		}
+	}
+
+	/**
+	 * Get a folder's tree-mode color: the active palette's gradient spread over every folder
+	 * in depth-first alphabetical order (computed once per tree change and theme)
+	 */
+	private getTreeAutoColor(folderPath: string): string | undefined {
+		if (!this.treeColorsCache || this.treeColorsCache.theme !== this.currentTheme) {
+			const order = getFolderTreeOrder(this.plugin.app.vault.getRoot());
+			const colors = this.generatePaletteColors(this.settings.activePaletteIndex, 'gradient', order.length);
+			const treeColors = new Map<string, string>();
+			order.forEach((path, index) => {
+				if (colors[index]) treeColors.set(path, colors[index]);
+			});
+			this.treeColorsCache = { theme: this.currentTheme, colors: treeColors };
+		}
+		return this.treeColorsCache.colors.get(folderPath);
+	}
+
+	/**
+	 * Get a folder's color under the depth strategy: each nesting level's palette is spread across
+	 * that level's folders in alphabetical order (computed once per tree change and theme)
+	 */
+	private getDepthColor(folderPath: string): string | undefined {
+		if (!this.depthColorsCache || this.depthColorsCache.theme !== this.currentTheme) {
+			const levels: string[][] = [];
+			for (const path of getFolderTreeOrder(this.plugin.app.vault.getRoot())) {
+				const depth = path.split('/').length - 1;
+				(levels[depth] ??= []).push(path);
+			}
+			
+			// Levels past the end of the table reuse its last palette
+			const { paletteIndices, mode } = this.settings.depthColoring;
+			const depthColors = new Map<string, string>();
+			levels.forEach((paths, depth) => {
+				const paletteIndex = paletteIndices[Math.min(depth, paletteIndices.length - 1)] ?? undefined;
+				const colors = this.generatePaletteColors(paletteIndex, mode, paths.length);
+				paths.forEach((path, index) => {
+					if (colors[index]) depthColors.set(path, colors[index]);
+				});
+			});
+			this.depthColorsCache = { theme: this.currentTheme, colors: depthColors };
+		}
+		return this.depthColorsCache.colors.get(folderPath);
+	}
+
+	/**
+	 * Get the heatmap metric for every folder (cached until the vault changes)
+	 */
+	private getFolderMetrics(): Map<string, number> {
+		if (!this.folderMetricsCache) {
+			this.folderMetricsCache = computeFolderMetrics(this.plugin.app.vault.getFiles(), this.settings.heatmapMetric);
+		}
+		return this.folderMetricsCache;
+	}
+
+	/**
+	 * Check if any auto-coloring (root or per-folder) uses heatmap mode
+	 */
+	private isHeatmapInUse(): boolean {
+		if (this.settings.autoColorEnabled && this.settings.autoColorMode === 'heatmap') {
+			return true;
+		}
+		return Object.values(this.settings.folderConfigs).some(config => config.childAutoColor?.mode === 'heatmap');
+	}
+
+	/**
+	 * Drop cached metrics after a vault change and re-apply styles if heatmap colors are shown (debounced)
+	 */
+	private scheduleHeatmapRefresh(): void {
+		this.folderMetricsCache = null;
+		if (!this.isHeatmapInUse()) {
+			return;
+		}
+		
+		if (this.heatmapRefreshTimeout) {
+			clearTimeout(this.heatmapRefreshTimeout);
+		}
+		this.heatmapRefreshTimeout = setTimeout(() => {
+			this.heatmapRefreshTimeout = null;
+			this.applyAllStyles();
+		}, 500);
+	}
+
+	/**
+	 * Save newly pinned auto-colors (debounced, pins are recorded by pinAutoColors)
+	 */
+	private schedulePinSave(): void {
+		if (this.pinSaveTimeout) {
+			clearTimeout(this.pinSaveTimeout);
+		}
+		this.pinSaveTimeout = setTimeout(() => {
+			this.pinSaveTimeout = null;
+			this.plugin.saveData(this.settings).catch(console.error);
+		}, 1000);
+	}
+
+	/**
+	 * Forget all pinned auto-colors and reassign them from the current palette and folder order
+	 */
+	async rebalanceAutoColors(): Promise<void> {
+		this.settings.pinnedAutoColors = {};
+		this.invalidateRootFoldersCache();
+		this.pinAutoColors();
+		this.applyAllStyles();
+		await this.plugin.saveData(this.settings);
+	}
+
+	/**
+	 * Get the auto-color assigned to a folder by its parent's childAutoColor setting
+	 * Children are matched to colors among their siblings, like root folders
+	 */
+	private getChildAutoColor(folderPath: string): string | undefined {
+		const pathParts = folderPath.split('/');
+		const parentPath = pathParts.slice(0, -1).join('/');
+		const autoColor = this.getOwnConfig(parentPath)?.childAutoColor;
+		if (!autoColor) {
+			return undefined;
 		}
+		
+		return this.assignAutoColor(folderPath, this.getChildrenFolders(parentPath), autoColor.paletteIndex, autoColor.mode);
 	}
 
 
@@ -639,8 +1371,43 @@ export class FolderManager {
 	 * Only saves properties that are explicitly set (not undefined)
 	 */
 	async setFolderConfig(path: string, config: FolderConfig): Promise<void> {
+		const merged = this.mergeConfig(this.settings.folderConfigs[path] || {}, config);
+		
+		// If config is empty, remove it entirely
+		if (Object.keys(merged).length === 0) {
+			delete this.settings.folderConfigs[path];
+		} else {
+			this.settings.folderConfigs[path] = merged;
+		}
+		this.configResolver.invalidate();
+		
+		await this.plugin.saveData(this.settings);
+		this.applyAllStyles();
+	}
+
+	/**
+	 * Set configuration for a file path
+	 * Only saves properties that are explicitly set (not undefined)
+	 */
+	async setFileConfig(path: string, config: FileConfig): Promise<void> {
+		const merged: FileConfig = this.mergeConfig(this.settings.fileConfigs[path] || {}, config);
+		
+		// If config is empty, remove it entirely
+		if (Object.keys(merged).length === 0) {
+			delete this.settings.fileConfigs[path];
+		} else {
+			this.settings.fileConfigs[path] = merged;
+		}
+		
+		await this.plugin.saveData(this.settings);
+		this.applyAllStyles();
+	}
+
+	/**
+	 * Merge a config update into an existing config, honoring __delete* flags
+	 */
+	private mergeConfig(existing: FolderConfig, config: FolderConfig): FolderConfig {
 		// Merge with existing config, only updating properties that are explicitly set
-		const existing = this.settings.folderConfigs[path] || {};
 		const merged: FolderConfig = { ...existing };
 		const configWithDeletions = config as FolderConfigWithDeletions;
 		
@@ -657,6 +1424,21 @@ export class FolderManager {
 		if (configWithDeletions.__deleteTextColor) {
 			delete merged.textColor;
 		}
+		if (configWithDeletions.__deleteSubfolderDepth) {
+			delete merged.subfolderDepth;
+		}
+		if (configWithDeletions.__deleteSubfolderExclusions) {
+			delete merged.subfolderExclusions;
+		}
+		if (configWithDeletions.__deleteChildTransformation) {
+			delete merged.childTransformation;
+		}
+		if (configWithDeletions.__deleteChildAutoColor) {
+			delete merged.childAutoColor;
+		}
+		if (configWithDeletions.__deleteThemeColors) {
+			delete merged.themeColors;
+		}
 		
 		// Only update properties that are explicitly provided (not undefined)
 		if (config.icon !== undefined) merged.icon = config.icon;
@@ -665,24 +1447,177 @@ export class FolderManager {
 		if (config.folderColor !== undefined) merged.folderColor = config.folderColor;
 		if (config.textColor !== undefined) merged.textColor = config.textColor;
 		if (config.applyToSubfolders !== undefined) merged.applyToSubfolders = config.applyToSubfolders;
+		if (config.subfolderDepth !== undefined) merged.subfolderDepth = config.subfolderDepth;
+		if (config.subfolderExclusions !== undefined) merged.subfolderExclusions = config.subfolderExclusions;
 		if (config.inheritBaseColor !== undefined) merged.inheritBaseColor = config.inheritBaseColor;
+		if (config.childTransformation !== undefined) merged.childTransformation = config.childTransformation;
+		if (config.childAutoColor !== undefined) merged.childAutoColor = config.childAutoColor;
+		if (config.themeColors !== undefined) merged.themeColors = config.themeColors;
 		
-		// If config is empty, remove it entirely
-		if (Object.keys(merged).length === 0) {
-			delete this.settings.folderConfigs[path];
-		} else {
-			this.settings.folderConfigs[path] = merged;
+		return merged;
+	}
+
+	/**
+	 * Remove configuration for a folder path
+	 */
+	async removeFolderConfig(path: string): Promise<void> {
+		delete this.settings.folderConfigs[path];
+		this.configResolver.invalidate();
+		await this.plugin.saveData(this.settings);
+		this.applyAllStyles();
+	}
+
+	/**
+	 * Rewrite config keys after a folder or file is renamed or moved
+	 * Covers the item itself and, for folders, every descendant folder and file
+	 */
+	async migrateConfigPaths(oldPath: string, newPath: string): Promise<void> {
+		if (oldPath === newPath) return;
+		
+		const foldersChanged = this.renameConfigKeys(this.settings.folderConfigs, oldPath, newPath);
+		const filesChanged = this.renameConfigKeys(this.settings.fileConfigs, oldPath, newPath);
+		const pinsChanged = this.renameConfigKeys(this.settings.pinnedAutoColors, oldPath, newPath);
+		
+		if (foldersChanged || filesChanged || pinsChanged) {
+			await this.plugin.saveData(this.settings);
+		}
+	}
+
+	/**
+	 * Move every entry keyed by oldPath or a path below it to the matching path under newPath
+	 * Returns true if any key was rewritten
+	 */
+	private renameConfigKeys<T>(configs: Record<string, T>, oldPath: string, newPath: string): boolean {
+		const prefix = oldPath + '/';
+		const moved: [string, T][] = [];
+		
+		for (const path of Object.keys(configs)) {
+			if (path === oldPath) {
+				moved.push([newPath, configs[path]]);
+				delete configs[path];
+			} else if (path.startsWith(prefix)) {
+				moved.push([newPath + '/' + path.slice(prefix.length), configs[path]]);
+				delete configs[path];
+			}
+		}
+		
+		// Moved configs win over any stale entry already at the new path
+		for (const [path, config] of moved) {
+			configs[path] = config;
+		}
+		
+		return moved.length > 0;
+	}
+
+	/**
+	 * Drop configs for a deleted folder or file (and everything below a deleted folder)
+	 */
+	private async removeConfigsForDeletedPath(path: string): Promise<void> {
+		const prefix = path + '/';
+		let changed = false;
+		
+		for (const configs of [this.settings.folderConfigs, this.settings.fileConfigs, this.settings.pinnedAutoColors]) {
+			for (const configPath of Object.keys(configs)) {
+				if (configPath === path || configPath.startsWith(prefix)) {
+					delete configs[configPath];
+					changed = true;
+				}
+			}
+		}
+		
+		if (changed) {
+			await this.plugin.saveData(this.settings);
+		}
+	}
+
+	/**
+	 * Audit all saved configs and return those whose path no longer exists
+	 * Each orphan comes with likely new locations, matched by name
+	 */
+	findOrphanedConfigs(): OrphanedConfig[] {
+		const vault = this.plugin.app.vault;
+		const orphans: OrphanedConfig[] = [];
+		
+		// Candidate lists are only built when there is an orphan to match, and only once
+		let folderCandidates: string[] | null = null;
+		let fileCandidates: string[] | null = null;
+		
+		for (const path of Object.keys(this.settings.folderConfigs)) {
+			// Pattern keys are not paths, so they can never be orphaned
+			if (isPatternKey(path)) continue;
+			if (!(vault.getAbstractFileByPath(path) instanceof TFolder)) {
+				folderCandidates ??= vault.getAllFolders().map(folder => folder.path);
+				orphans.push({ path, kind: 'folder', suggestions: this.suggestNewLocations(path, folderCandidates, this.settings.folderConfigs) });
+			}
+		}
+		
+		for (const path of Object.keys(this.settings.fileConfigs)) {
+			if (!(vault.getAbstractFileByPath(path) instanceof TFile)) {
+				fileCandidates ??= vault.getFiles().map(file => file.path);
+				orphans.push({ path, kind: 'file', suggestions: this.suggestNewLocations(path, fileCandidates, this.settings.fileConfigs) });
+			}
 		}
 		
+		return orphans.sort((a, b) => a.path.toLowerCase().localeCompare(b.path.toLowerCase()));
+	}
+
+	/**
+	 * Find existing, unconfigured paths with the same name as a missing one
+	 * Ranked by how many leading path segments they share with the old path
+	 */
+	private suggestNewLocations(oldPath: string, candidates: string[], configs: Record<string, unknown>): string[] {
+		const oldParts = oldPath.split('/');
+		const name = oldParts[oldParts.length - 1].toLowerCase();
+		
+		const sharedSegments = (path: string): number => {
+			const parts = path.split('/');
+			let count = 0;
+			while (count < parts.length - 1 && count < oldParts.length - 1 && parts[count] === oldParts[count]) {
+				count++;
+			}
+			return count;
+		};
+		
+		return candidates
+			.filter(path => path.split('/').pop()?.toLowerCase() === name && !configs[path])
+			.sort((a, b) => sharedSegments(b) - sharedSegments(a) || a.toLowerCase().localeCompare(b.toLowerCase()))
+			.slice(0, 5);
+	}
+
+	/**
+	 * Move orphaned configs (and their pinned auto-colors) to new locations
+	 */
+	async repointConfigs(moves: { from: string; to: string }[]): Promise<void> {
+		for (const move of moves) {
+			this.renameConfigKeys(this.settings.folderConfigs, move.from, move.to);
+			this.renameConfigKeys(this.settings.fileConfigs, move.from, move.to);
+			this.renameConfigKeys(this.settings.pinnedAutoColors, move.from, move.to);
+		}
 		await this.plugin.saveData(this.settings);
 		this.applyAllStyles();
 	}
 
 	/**
-	 * Remove configuration for a folder path
+	 * Remove several configs at once
 	 */
-	async removeFolderConfig(path: string): Promise<void> {
-		delete this.settings.folderConfigs[path];
+	async removeConfigs(entries: { path: string; kind: 'folder' | 'file' }[]): Promise<void> {
+		for (const entry of entries) {
+			if (entry.kind === 'folder') {
+				delete this.settings.folderConfigs[entry.path];
+			} else {
+				delete this.settings.fileConfigs[entry.path];
+			}
+		}
+		this.configResolver.invalidate();
+		await this.plugin.saveData(this.settings);
+		this.applyAllStyles();
+	}
+
+	/**
+	 * Remove configuration for a file path
+	 */
+	async removeFileConfig(path: string): Promise<void> {
+		delete this.settings.fileConfigs[path];
 		await this.plugin.saveData(this.settings);
 		this.applyAllStyles();
 	}
@@ -692,13 +1627,17 @@ export class FolderManager {
 	 */
 	async updateSettings(settings: IconocolorSettings): Promise<void> {
 		this.settings = settings;
+		this.configResolver.invalidate(); // Pattern configs might have been added or removed
 		this.invalidateRootFoldersCache(); // Settings change might affect root folders
+		this.folderMetricsCache = null; // Heatmap metric might have changed
+		this.currentTheme = getCurrentTheme();
 		
 		// Clean up saved configs: remove colors that match computed colors (from base + transformations)
 		// This ensures folders update when transformation settings change
 		let configsChanged = false;
 		
 		for (const folderPath in settings.folderConfigs) {
+			if (isPatternKey(folderPath)) continue;
 			const config = settings.folderConfigs[folderPath];
 			const computedColors = this.getComputedColors(folderPath);
 			
@@ -722,6 +1661,8 @@ export class FolderManager {
 			await this.plugin.saveData(settings);
 		}
 		
+		// Switching to pinned assignment, a palette or auto-colored children can leave folders without pins
+		this.pinAutoColors();
 		this.applyAllStyles();
 	}
 }
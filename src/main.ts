@@ -1,9 +1,11 @@
-import { Plugin, TFolder, Modal, Notice, App } from 'obsidian';
-import { IconocolorSettings, FolderConfig, SettingsProfile, FolderConfigWithDeletions } from './types';
+import { Plugin, TFile, TFolder, Modal, Notice, App } from 'obsidian';
+import { IconocolorSettings, FolderConfig, FileConfig, SettingsProfile, FolderConfigWithDeletions } from './types';
 import { DEFAULT_SETTINGS } from './settings';
 import { FolderManager } from './folderManager';
 import { IconocolorSettingTab } from './ui/settingsTab';
 import { FolderConfigModal } from './ui/folderConfigModal';
+import { OrphanedConfigsModal } from './ui/orphanedConfigsModal';
+import { exportCssSnippet } from './utils/cssSnippet';
 
 export default class IconocolorPlugin extends Plugin {
 	settings: IconocolorSettings;
@@ -16,7 +18,7 @@ export default class IconocolorPlugin extends Plugin {
 		this.folderManager = new FolderManager(this, this.settings);
 		this.folderManager.initialize();
 
-		// Register context menu for folders
+		// Register context menu for folders and files
 		this.registerEvent(
 			this.app.workspace.on('file-menu', (menu, abstractFile) => {
 				// Check if it's a folder (TFolder)
@@ -48,6 +50,34 @@ export default class IconocolorPlugin extends Plugin {
 								});
 						});
 					}
+				} else if (abstractFile instanceof TFile) {
+					const filePath = abstractFile.path;
+					
+					menu.addItem(item => {
+						item
+							.setTitle('Set icon and colors')
+							.setIcon('palette')
+							.onClick(() => {
+								this.openFileConfigModal(filePath);
+							});
+					});
+
+					// Check if file has config
+					const config = this.settings.fileConfigs[filePath];
+					if (config) {
+						menu.addItem(item => {
+							item
+								.setTitle('Remove icon and colors')
+								.setIcon('trash')
+								.onClick(async () => {
+									try {
+										await this.folderManager.removeFileConfig(filePath);
+									} catch (error) {
+										new Notice(`Failed to remove file configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+									}
+								});
+						});
+					}
 				}
 			})
 		);
@@ -67,6 +97,41 @@ export default class IconocolorPlugin extends Plugin {
 			},
 		});
 
+		// Add command to audit configs whose folders or files are gone
+		this.addCommand({
+			id: 'find-orphaned-configs',
+			name: 'Find orphaned configurations',
+			callback: () => {
+				new OrphanedConfigsModal(this.app, this.folderManager).open();
+			},
+		});
+
+		// Add command to reassign pinned auto-colors on purpose
+		this.addCommand({
+			id: 'rebalance-auto-colors',
+			name: 'Rebalance automatic colors',
+			callback: async () => {
+				await this.folderManager.rebalanceAutoColors();
+				new Notice('Automatic colors rebalanced.');
+			},
+		});
+
+		// Add command to write the computed styles to a CSS snippet that works without the plugin
+		this.addCommand({
+			id: 'export-css-snippet',
+			name: 'Export styles as CSS snippet',
+			callback: async () => {
+				try {
+					const styles = this.folderManager.getAllTreeItemStyles();
+					const filePath = await exportCssSnippet(this.app, styles, this.manifest.id, this.settings.iconSize || 16);
+					new Notice(`Styles exported to ${filePath}. Enable it under Appearance → CSS snippets.`);
+				} catch (error) {
+					console.error('[Iconocolor] Failed to export CSS snippet:', error);
+					new Notice('Failed to export CSS snippet.');
+				}
+			},
+		});
+
 		// Add command to switch profiles
 		this.addCommand({
 			id: 'switch-profile',
@@ -117,10 +182,16 @@ export default class IconocolorPlugin extends Plugin {
 		if (profile.activePaletteIndex !== undefined) this.settings.activePaletteIndex = profile.activePaletteIndex;
 		if (profile.autoColorEnabled !== undefined) this.settings.autoColorEnabled = profile.autoColorEnabled;
 		if (profile.autoColorMode) this.settings.autoColorMode = profile.autoColorMode;
+		if (profile.heatmapMetric) this.settings.heatmapMetric = profile.heatmapMetric;
+		if (profile.autoColorAssignment) this.settings.autoColorAssignment = profile.autoColorAssignment;
+		if (profile.gradientInterpolation) this.settings.gradientInterpolation = profile.gradientInterpolation;
 		if (profile.iconColorTransformation) this.settings.iconColorTransformation = deepClone(profile.iconColorTransformation);
 		if (profile.folderColorTransformation) this.settings.folderColorTransformation = deepClone(profile.folderColorTransformation);
 		if (profile.textColorTransformation) this.settings.textColorTransformation = deepClone(profile.textColorTransformation);
+		if (profile.themeTransformations) this.settings.themeTransformations = deepClone(profile.themeTransformations);
 		if (profile.childBaseTransformation) this.settings.childBaseTransformation = deepClone(profile.childBaseTransformation);
+		if (profile.baseColorStrategy) this.settings.baseColorStrategy = profile.baseColorStrategy;
+		if (profile.depthColoring) this.settings.depthColoring = deepClone(profile.depthColoring);
 		if (profile.folderColorOpacity !== undefined) this.settings.folderColorOpacity = profile.folderColorOpacity;
 		if (profile.defaultIconRules) this.settings.defaultIconRules = deepClone(profile.defaultIconRules);
 
@@ -165,6 +236,24 @@ export default class IconocolorPlugin extends Plugin {
 		if (this.settings.autoColorMode === undefined) {
 			this.settings.autoColorMode = 'gradient';
 		}
+		if (this.settings.heatmapMetric === undefined) {
+			this.settings.heatmapMetric = 'modified';
+		}
+		if (this.settings.autoColorAssignment === undefined) {
+			this.settings.autoColorAssignment = 'index';
+		}
+		if (this.settings.gradientInterpolation === undefined) {
+			this.settings.gradientInterpolation = 'srgb';
+		}
+		if (!loadedData?.pinnedAutoColors) {
+			this.settings.pinnedAutoColors = {}; // Don't share the defaults object
+		}
+		if (this.settings.renderMode === undefined) {
+			this.settings.renderMode = 'inline';
+		}
+		if (this.settings.visionSimulation === undefined) {
+			this.settings.visionSimulation = 'none';
+		}
 		
 		// Migration: Initialize new transformation settings if missing
 		if (!this.settings.iconColorTransformation) {
@@ -176,9 +265,23 @@ export default class IconocolorPlugin extends Plugin {
 		if (!this.settings.textColorTransformation) {
 			this.settings.textColorTransformation = DEFAULT_SETTINGS.textColorTransformation;
 		}
+		if (!loadedData?.themeTransformations) {
+			this.settings.themeTransformations = {}; // Don't share the defaults object
+		}
 		if (!this.settings.childBaseTransformation) {
 			this.settings.childBaseTransformation = DEFAULT_SETTINGS.childBaseTransformation;
 		}
+		if (this.settings.baseColorStrategy === undefined) {
+			this.settings.baseColorStrategy = 'inherit';
+		}
+		if (!loadedData?.depthColoring) {
+			this.settings.depthColoring = { paletteIndices: [], mode: 'gradient' }; // Don't share the defaults object
+		}
+		
+		// Migration: Initialize file configs if missing
+		if (!this.settings.fileConfigs) {
+			this.settings.fileConfigs = {};
+		}
 		
 		// Migration: Initialize profiles if missing
 		if (!this.settings.profiles) {
@@ -290,7 +393,12 @@ export default class IconocolorPlugin extends Plugin {
 				if (result.folderColor !== undefined) config.folderColor = result.folderColor;
 				if (result.textColor !== undefined) config.textColor = result.textColor;
 				if (result.applyToSubfolders !== undefined) config.applyToSubfolders = result.applyToSubfolders;
+				if (result.subfolderDepth !== undefined) config.subfolderDepth = result.subfolderDepth;
+				if (result.subfolderExclusions !== undefined) config.subfolderExclusions = result.subfolderExclusions;
 				if (result.inheritBaseColor !== undefined) config.inheritBaseColor = result.inheritBaseColor;
+				if (result.childTransformation !== undefined) config.childTransformation = result.childTransformation;
+				if (result.childAutoColor !== undefined) config.childAutoColor = result.childAutoColor;
+				if (result.themeColors !== undefined) config.themeColors = result.themeColors;
 				
 				// Explicitly delete properties that existed in original but are now undefined
 				// This handles the case where user reverts a color - we need to delete it
@@ -307,10 +415,71 @@ export default class IconocolorPlugin extends Plugin {
 				if (originalConfig.textColor !== undefined && result.textColor === undefined) {
 					configWithDeletions.__deleteTextColor = true;
 				}
+				if (originalConfig.subfolderDepth !== undefined && result.subfolderDepth === undefined) {
+					configWithDeletions.__deleteSubfolderDepth = true;
+				}
+				if (originalConfig.subfolderExclusions !== undefined && result.subfolderExclusions === undefined) {
+					configWithDeletions.__deleteSubfolderExclusions = true;
+				}
+				if (originalConfig.childTransformation !== undefined && result.childTransformation === undefined) {
+					configWithDeletions.__deleteChildTransformation = true;
+				}
+				if (originalConfig.childAutoColor !== undefined && result.childAutoColor === undefined) {
+					configWithDeletions.__deleteChildAutoColor = true;
+				}
+				if (originalConfig.themeColors !== undefined && result.themeColors === undefined) {
+					configWithDeletions.__deleteThemeColors = true;
+				}
 
 				await this.folderManager.setFolderConfig(folderPath, config);
 			},
-			folderPath
+			folderPath,
+			'folder',
+			this.folderManager
+		).open();
+	}
+
+	private openFileConfigModal(filePath: string): void {
+		const currentConfig = this.settings.fileConfigs[filePath] || {};
+
+		new FolderConfigModal(
+			this.app,
+			currentConfig,
+			this.settings,
+			async (result) => {
+				// Build config with explicitly set values and track deletions
+				const config: FileConfig = {};
+				
+				if (result.icon !== undefined) config.icon = result.icon;
+				if (result.baseColor !== undefined) config.baseColor = result.baseColor;
+				if (result.iconColor !== undefined) config.iconColor = result.iconColor;
+				if (result.folderColor !== undefined) config.folderColor = result.folderColor;
+				if (result.textColor !== undefined) config.textColor = result.textColor;
+				if (result.themeColors !== undefined) config.themeColors = result.themeColors;
+				
+				// Explicitly delete properties that existed in original but are now undefined
+				const configWithDeletions = config as FolderConfigWithDeletions;
+				if (currentConfig.themeColors !== undefined && result.themeColors === undefined) {
+					configWithDeletions.__deleteThemeColors = true;
+				}
+				if (currentConfig.baseColor !== undefined && result.baseColor === undefined) {
+					configWithDeletions.__deleteBaseColor = true;
+				}
+				if (currentConfig.iconColor !== undefined && result.iconColor === undefined) {
+					configWithDeletions.__deleteIconColor = true;
+				}
+				if (currentConfig.folderColor !== undefined && result.folderColor === undefined) {
+					configWithDeletions.__deleteFolderColor = true;
+				}
+				if (currentConfig.textColor !== undefined && result.textColor === undefined) {
+					configWithDeletions.__deleteTextColor = true;
+				}
+
+				await this.folderManager.setFileConfig(filePath, config);
+			},
+			filePath,
+			'file',
+			this.folderManager
 		).open();
 	}
 }
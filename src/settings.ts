@@ -2,6 +2,7 @@ import { IconocolorSettings } from './types';
 
 export const DEFAULT_SETTINGS: IconocolorSettings = {
 	folderConfigs: {},
+	fileConfigs: {},
 	iconSize: 20, // Default 16px icon size
 	colorPalettes: [
 		{
@@ -38,10 +39,15 @@ export const DEFAULT_SETTINGS: IconocolorSettings = {
 	activePaletteIndex: 0,
 	autoColorEnabled: false, // Whether to automatically assign base colors to root folders
 	autoColorMode: 'gradient', // How to apply colors to root folders
+	heatmapMetric: 'modified', // Heatmap mode: color by most recent modification
+	autoColorAssignment: 'index', // Match folders to palette colors by sorted position
+	pinnedAutoColors: {}, // Colors recorded by 'pinned' assignment
+	gradientInterpolation: 'srgb', // Blend gradients channel by channel
 	// Global transformations: how element colors are derived from base color
 	iconColorTransformation: { type: 'none' }, // Icon color same as base by default
 	folderColorTransformation: { type: 'none' }, // Background color same as base by default
 	textColorTransformation: { type: 'lightness', adjustment: 20 }, // Text 20% lighter than base by default
+	themeTransformations: {}, // No light/dark overrides by default
 	// Child base transformation: how child folders get base color from parent
 	childBaseTransformation: {
 		type: 'lightness',
@@ -49,8 +55,12 @@ export const DEFAULT_SETTINGS: IconocolorSettings = {
 		useGradient: false, // Whether to interpolate between parent and next sibling
 		backgroundOpacity: 100
 	},
+	baseColorStrategy: 'inherit', // Children derive their base color from their parent
+	depthColoring: { paletteIndices: [], mode: 'gradient' }, // Every level uses the active palette until levels are added
 	folderColorOpacity: 0, // Global opacity for folder background colors (0-100, default 100)
 	defaultIconRules: [], // Rules for applying default icons based on regex patterns
+	renderMode: 'inline', // Write colors onto each explorer row
+	visionSimulation: 'none', // Show previews with typical color vision
 	// Profile management
 	profiles: [], // Saved profiles
 	activeProfileId: undefined, // Currently active profile ID (if any)
@@ -5,7 +5,40 @@ export interface FolderConfig {
 	folderColor?: string; // Explicit background color (overrides transformation)
 	textColor?: string; // Explicit text color (overrides transformation)
 	applyToSubfolders?: boolean; // Whether to apply to subfolders
+	subfolderDepth?: number; // Max levels below this folder that inherit (undefined = unlimited)
+	subfolderExclusions?: string[]; // Subfolder paths (relative to this folder) that don't inherit, with their subtrees
 	inheritBaseColor?: boolean; // Whether children inherit base color (default: true)
+	childTransformation?: ChildBaseTransformation; // Overrides the global child base transformation for this subtree
+	childAutoColor?: ChildAutoColor; // Assign direct children's base colors from a palette
+	themeColors?: ThemeColors; // Light/dark overrides of the colors above
+}
+
+// Per-file styling (same color model as folders, without subtree options)
+export interface FileConfig {
+	icon?: string; // Path to icon file or icon name
+	baseColor?: string; // Base color for this file (used to derive other colors)
+	iconColor?: string; // Explicit icon color (overrides transformation)
+	folderColor?: string; // Explicit background color (overrides transformation)
+	textColor?: string; // Explicit text color (overrides transformation)
+	themeColors?: ThemeColors; // Light/dark overrides of the colors above
+}
+
+// Light and dark theme variants: unset fields fall back to the theme-independent value
+export type ThemeVariant = 'light' | 'dark';
+
+export interface ThemeColorSet {
+	baseColor?: string;
+	iconColor?: string;
+	folderColor?: string;
+	textColor?: string;
+}
+
+export type ThemeColors = Partial<Record<ThemeVariant, ThemeColorSet>>;
+
+export interface ThemeTransformations {
+	iconColorTransformation?: ColorTransformation;
+	folderColorTransformation?: ColorTransformation;
+	textColorTransformation?: ColorTransformation;
 }
 
 // Internal type for folder config with deletion flags
@@ -14,11 +47,34 @@ export interface FolderConfigWithDeletions extends FolderConfig {
 	__deleteIconColor?: boolean;
 	__deleteFolderColor?: boolean;
 	__deleteTextColor?: boolean;
+	__deleteSubfolderDepth?: boolean;
+	__deleteSubfolderExclusions?: boolean;
+	__deleteChildTransformation?: boolean;
+	__deleteChildAutoColor?: boolean;
+	__deleteThemeColors?: boolean;
 }
 
 export interface ColorPalette {
 	name: string;
 	colors: string[]; // Array of hex colors
+	themeColors?: Partial<Record<ThemeVariant, string[]>>; // Replacement colors for one theme
+}
+
+// Hue relationship used by the palette generator
+// - analogous: neighbouring hues around the seed
+// - complementary: the seed and its opposite hue
+// - triadic: three hues evenly spaced around the wheel
+// - tetradic: four hues evenly spaced around the wheel
+// - monochrome: the seed hue only, as a lightness ramp
+export type PaletteHarmony = 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'monochrome';
+
+export interface PaletteGeneratorOptions {
+	seed: string; // Hex color the palette is built around
+	harmony: PaletteHarmony;
+	count: number; // Number of colors to generate
+	minLightness: number; // Lowest OKLCH lightness (0-100)
+	maxLightness: number; // Highest OKLCH lightness (0-100)
+	maxChroma: number; // Chroma cap (0-100, 100 = most saturated)
 }
 
 export interface DefaultIconRule {
@@ -46,22 +102,135 @@ export interface NoTransformation {
 	type: 'none';
 }
 
-export type ColorTransformation = HSLTransformation | LightnessTransformation | NoTransformation;
+export interface OklchTransformation {
+	type: 'oklch';
+	lightness?: number; // Perceptual lightness adjustment in percentage points (-100 to 100)
+	chroma?: number; // Chroma adjustment in percentage, where 100% is chroma 0.4 (-100 to 100)
+	hue?: number; // Hue shift in degrees (-180 to 180)
+}
+
+export interface ContrastTransformation {
+	type: 'contrast';
+	ratio: number; // Minimum WCAG contrast ratio against the effective background (1 to 21, e.g. 4.5 for AA)
+}
+
+export interface MixTransformation {
+	type: 'mix';
+	color: string; // Hex color to mix toward
+	amount: number; // Percentage of the mix color (0 to 100)
+}
+
+export interface TintTransformation {
+	type: 'tint';
+	amount: number; // Percentage mixed toward white (0 to 100)
+}
+
+export interface ShadeTransformation {
+	type: 'shade';
+	amount: number; // Percentage mixed toward black (0 to 100)
+}
+
+export interface ComplementTransformation {
+	type: 'complement'; // Hue rotated by 180 degrees
+}
+
+export interface DesaturateTransformation {
+	type: 'desaturate';
+	amount: number; // Percentage of chroma removed, keeping perceptual lightness (0 to 100, 100 = grayscale)
+}
+
+export interface AlphaTransformation {
+	type: 'alpha';
+	alpha: number; // Opacity in percentage (0 = transparent, 100 = opaque); later pipeline steps keep it
+}
+
+// One step of a multi-step transformation
+export type TransformationStep = HSLTransformation | LightnessTransformation | OklchTransformation | ContrastTransformation
+	| MixTransformation | TintTransformation | ShadeTransformation | ComplementTransformation | DesaturateTransformation | AlphaTransformation;
+
+export interface PipelineTransformation {
+	type: 'pipeline';
+	steps: TransformationStep[]; // Applied in order, each to the previous step's result
+}
+
+export type ColorTransformation = TransformationStep | NoTransformation | PipelineTransformation;
 
 export interface ChildBaseTransformation {
-	type: 'hsl' | 'lightness' | 'none';
-	// HSL transformation
+	type: 'hsl' | 'lightness' | 'oklch' | 'pipeline' | 'none';
+	// HSL transformation (OKLCH uses hue and lightness too)
 	hue?: number;
 	saturation?: number;
 	lightness?: number;
+	// OKLCH transformation
+	chroma?: number;
 	// Lightness transformation
 	adjustment?: number;
+	// Pipeline transformation (contrast steps don't apply to base colors)
+	steps?: TransformationStep[];
+	// Per-depth table: entry N replaces the transformation for folders N + 1 levels below the folder that owns
+	// this transformation (a root folder for the global setting); deeper folders fall back to the transformation above
+	// Entries apply even when the type is 'none'
+	depthTransformations?: TransformationStep[];
+	// Clamps applied to every child base color, in HSL percentages (0-100, unset = no limit)
+	minLightness?: number;
+	maxLightness?: number;
+	minSaturation?: number;
+	maxSaturation?: number;
 	// Gradient: interpolate between parent and next sibling before applying transformation
 	useGradient?: boolean; // Whether to use gradient mode (automatically distributes across all children)
 	// Background opacity (0-100, 0 = fully transparent, 100 = fully opaque)
 	backgroundOpacity?: number;
 }
 
+// Per-folder auto-color: the folder's direct children get base colors from a palette,
+// the same way root folders do when auto-color is enabled
+export interface ChildAutoColor {
+	paletteIndex?: number; // Index into colorPalettes (undefined = active palette)
+	mode: Exclude<AutoColorMode, 'tree'>; // How to spread the palette across the children (tree mode spans the whole vault)
+}
+
+// How a palette is spread across auto-colored folders
+// - gradient: smooth transitions between palette colors
+// - repeat: cycle through the palette colors
+// - heatmap: position on the palette gradient comes from folder activity (see HeatmapMetric)
+// - tree: one gradient through every folder at every depth, in depth-first alphabetical order (root setting only)
+export type AutoColorMode = 'gradient' | 'repeat' | 'heatmap' | 'tree';
+
+// Vault data used by heatmap mode, aggregated over all files below a folder
+export type HeatmapMetric = 'modified' | 'notes' | 'size';
+
+// How auto-colored folders are matched to palette colors
+// - index: position in the sorted sibling list (adding a folder shifts the ones after it)
+// - hash: stable hash of the folder name
+// - pinned: the color a folder first received is recorded and kept until rebalanced
+export type AutoColorAssignment = 'index' | 'hash' | 'pinned';
+
+// Color space palette gradients are blended in
+// - srgb: straight channel blend (distant hues pass through grey)
+// - hsl: hue takes the shorter way around the wheel
+// - oklab: perceptually even blend
+// - oklch: perceptually even, with hue along the shorter way around
+export type InterpolationSpace = 'srgb' | 'hsl' | 'oklab' | 'oklch';
+
+// How folders without an explicit base color get one
+// - inherit: derived from the parent's base color by the child base transformation
+// - depth: taken from the palette chosen for the folder's nesting level (see DepthColoring)
+export type BaseColorStrategy = 'inherit' | 'depth';
+
+// Color-by-depth: all folders at one nesting level share a palette
+export interface DepthColoring {
+	paletteIndices: (number | null)[]; // Entry N = palette for depth N+1 (depth 1 = top-level folders), null = active palette; deeper levels reuse the last entry
+	mode: 'gradient' | 'repeat'; // How each level's palette is spread across its folders, in alphabetical order
+}
+
+// Color vision deficiency simulated in color previews
+export type VisionDeficiency = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+// How computed colors reach the file explorer
+// - inline: written onto each rendered row
+// - stylesheet: compiled for the whole vault into one generated stylesheet keyed by data-path
+export type RenderMode = 'inline' | 'stylesheet';
+
 export interface SettingsProfile {
 	id: string; // Unique identifier
 	name: string; // Display name
@@ -70,10 +239,16 @@ export interface SettingsProfile {
 	iconSize?: number;
 	activePaletteIndex?: number;
 	autoColorEnabled?: boolean;
-	autoColorMode?: 'gradient' | 'repeat';
+	autoColorMode?: AutoColorMode;
+	heatmapMetric?: HeatmapMetric;
+	autoColorAssignment?: AutoColorAssignment;
+	gradientInterpolation?: InterpolationSpace;
+	baseColorStrategy?: BaseColorStrategy;
+	depthColoring?: DepthColoring;
 	iconColorTransformation?: ColorTransformation;
 	folderColorTransformation?: ColorTransformation;
 	textColorTransformation?: ColorTransformation;
+	themeTransformations?: Partial<Record<ThemeVariant, ThemeTransformations>>;
 	childBaseTransformation?: ChildBaseTransformation;
 	folderColorOpacity?: number;
 	defaultIconRules?: DefaultIconRule[];
@@ -81,19 +256,29 @@ export interface SettingsProfile {
 
 export interface IconocolorSettings {
 	folderConfigs: Record<string, FolderConfig>; // Map of folder path to config
+	fileConfigs: Record<string, FileConfig>; // Map of file path to config
 	iconSize: number; // Global icon size in pixels
 	colorPalettes: ColorPalette[]; // User-defined color palettes
 	activePaletteIndex: number; // Index of currently active palette
 	autoColorEnabled: boolean; // Whether to automatically assign base colors to root folders from palette
-	autoColorMode: 'gradient' | 'repeat'; // How to apply colors to root folders
+	autoColorMode: AutoColorMode; // How to apply colors to root folders
+	heatmapMetric: HeatmapMetric; // Which vault data drives 'heatmap' mode
+	autoColorAssignment: AutoColorAssignment; // How auto-colored folders are matched to palette colors
+	gradientInterpolation: InterpolationSpace; // Color space gradient colors are blended in
+	pinnedAutoColors: Record<string, string>; // Folder path -> color recorded by 'pinned' assignment
 	// Global transformations: how to derive element colors from base color
 	iconColorTransformation: ColorTransformation; // How icon color is derived from base
 	folderColorTransformation: ColorTransformation; // How background color is derived from base
 	textColorTransformation: ColorTransformation; // How text color is derived from base
+	themeTransformations: Partial<Record<ThemeVariant, ThemeTransformations>>; // Per-theme overrides of the three above
 	// Child base transformation: how child folders get their base color from parent
 	childBaseTransformation: ChildBaseTransformation;
+	baseColorStrategy: BaseColorStrategy; // Inherit base colors from parents, or pick them by nesting level
+	depthColoring: DepthColoring; // Palettes per nesting level for the 'depth' strategy
 	folderColorOpacity: number; // Global opacity for folder background colors (0-100, default 100)
 	defaultIconRules: DefaultIconRule[]; // Rules for applying default icons based on regex patterns
+	renderMode: RenderMode; // How computed colors reach the file explorer
+	visionSimulation: VisionDeficiency; // Color vision simulated in previews (previews only)
 	// Profile management
 	profiles: SettingsProfile[]; // Saved profiles
 	activeProfileId?: string; // Currently active profile ID (if any)
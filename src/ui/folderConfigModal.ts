@@ -1,11 +1,14 @@
-import { App, Modal, Setting } from 'obsidian';
-import { FolderConfig, IconocolorSettings } from '../types';
+import { App, DropdownComponent, Modal, Setting } from 'obsidian';
+import { ChildAutoColor, ChildBaseTransformation, FolderConfig, IconocolorSettings, ThemeColors, ThemeColorSet, ThemeTransformations, ThemeVariant, VisionDeficiency } from '../types';
 import { IconInfo, getLucideIconUrl, isLucideIcon, getLucideIconName, renderIconAsSvg } from '../utils/iconService';
-import { applyHSLTransformation, applyLightnessTransformation, getColorFilter } from '../utils/colorUtils';
+import { applyColorTransformation, blendOverBackground, deriveChildBaseColor, getColorFilter, getHexAlpha, simulateColorVision } from '../utils/colorUtils';
 import { ColorTransformation } from '../types';
 import { isLocalIcon } from '../utils/iconDownloader';
 import { getInstalledIconPacks, IconPack } from '../utils/iconPackManager';
 import { setCssProps } from '../utils/domUtils';
+import { isPatternKey } from '../utils/pathPatterns';
+import { FolderManager } from '../folderManager';
+import { getCurrentTheme, getThemeBackgroundColor, getThemeTransformation } from '../utils/themeUtils';
 
 export interface FolderConfigResult {
 	icon?: string;
@@ -14,7 +17,12 @@ export interface FolderConfigResult {
 	folderColor?: string;
 	textColor?: string;
 	applyToSubfolders?: boolean;
+	subfolderDepth?: number;
+	subfolderExclusions?: string[];
 	inheritBaseColor?: boolean;
+	childTransformation?: ChildBaseTransformation;
+	childAutoColor?: ChildAutoColor;
+	themeColors?: ThemeColors;
 }
 
 type IconSource = 'all' | 'lucide' | 'simpleicons' | 'custom' | 'local' | string; // string for icon pack IDs
@@ -30,6 +38,9 @@ export class FolderConfigModal extends Modal {
 	private folderPath: string | undefined;
 	private searchTimeout: number | null = null; // For debouncing search
 	private originalConfig: FolderConfig | undefined; // Track original config to detect deletions
+	private itemType: 'folder' | 'file'; // Files have no subtree options and inherit from their folder
+	private folderManager: FolderManager | undefined; // Resolves computed base colors
+	private visionSimulation: VisionDeficiency = 'none'; // Color vision the preview is shown with
 
 	// UI elements
 	private resultsContainer: HTMLElement;
@@ -39,9 +50,12 @@ export class FolderConfigModal extends Modal {
 	private iconTabContent: HTMLElement;
 	private colorTabContent: HTMLElement;
 
-	constructor(app: App, currentConfig?: FolderConfig, settings?: IconocolorSettings, onSubmit?: (result: FolderConfigResult) => void, folderPath?: string) {
+	constructor(app: App, currentConfig?: FolderConfig, settings?: IconocolorSettings, onSubmit?: (result: FolderConfigResult) => void, folderPath?: string, itemType: 'folder' | 'file' = 'folder', folderManager?: FolderManager) {
 		super(app);
 		this.folderPath = folderPath;
+		this.folderManager = folderManager;
+		this.itemType = itemType;
+		this.visionSimulation = settings?.visionSimulation ?? 'none';
 		this.originalConfig = currentConfig ? { ...currentConfig } : undefined;
 		
 		if (currentConfig) {
@@ -51,7 +65,15 @@ export class FolderConfigModal extends Modal {
 			this.result.folderColor = currentConfig.folderColor;
 			this.result.textColor = currentConfig.textColor;
 			this.result.applyToSubfolders = currentConfig.applyToSubfolders || false;
+			this.result.subfolderDepth = currentConfig.subfolderDepth;
+			this.result.subfolderExclusions = currentConfig.subfolderExclusions ? [...currentConfig.subfolderExclusions] : undefined;
 			this.result.inheritBaseColor = currentConfig.inheritBaseColor !== undefined ? currentConfig.inheritBaseColor : true;
+			this.result.childTransformation = currentConfig.childTransformation ? { ...currentConfig.childTransformation } : undefined;
+			this.result.childAutoColor = currentConfig.childAutoColor ? { ...currentConfig.childAutoColor } : undefined;
+			this.result.themeColors = currentConfig.themeColors ? {
+				...(currentConfig.themeColors.light && { light: { ...currentConfig.themeColors.light } }),
+				...(currentConfig.themeColors.dark && { dark: { ...currentConfig.themeColors.dark } }),
+			} : undefined;
 
 			if (currentConfig.icon) {
 				if (isLucideIcon(currentConfig.icon)) {
@@ -90,7 +112,7 @@ export class FolderConfigModal extends Modal {
 		// Header with folder path if available
 		const header = contentEl.createDiv();
 		header.addClass('folder-config-header');
-		header.createEl('h2', { text: 'Folder configuration' });
+		header.createEl('h2', { text: this.itemType === 'file' ? 'File configuration' : 'Folder configuration' });
 		if (this.folderPath) {
 			const pathEl = header.createEl('p', { text: this.folderPath });
 			pathEl.addClass('folder-config-path');
@@ -287,11 +309,19 @@ export class FolderConfigModal extends Modal {
 			return;
 		}
 		
-		// Get base color (from config or computed) - use async IIFE
-		(async () => {
-			const baseColor = await this.getBaseColor();
-			this.buildUnifiedColorControl(container, baseColor);
-		})().catch(console.error);
+		// Get base color (from config or computed)
+		const colorControls = container.createDiv();
+		this.buildUnifiedColorControl(colorControls, this.getBaseColor());
+		
+		// Light/dark overrides of the colors above
+		const themeSection = container.createDiv();
+		themeSection.addClass('folder-config-color-section');
+		this.buildThemeColorControls(themeSection);
+		
+		// Files have no children, so there is nothing to inherit
+		if (this.itemType === 'file') {
+			return;
+		}
 		
 		// Inherit base color toggle (for children)
 		const inheritRow = container.createDiv();
@@ -307,145 +337,354 @@ export class FolderConfigModal extends Modal {
 						this.result.inheritBaseColor = value;
 					});
 			});
+		
+		this.buildSubfolderControls(container);
+		this.buildChildAutoColorControls(container);
+		
+		// Child transformation override for this subtree
+		const childSection = container.createDiv();
+		childSection.addClass('folder-config-color-section');
+		childSection.addClass('folder-config-child-transformation-section');
+		this.buildChildTransformationControls(childSection);
 	}
 
 	/**
-	 * Get base color for this folder (from config or computed)
+	 * Build controls for colors that apply in only the light or the dark theme
+	 * Empty fields fall back to the colors above
 	 */
-	private async getBaseColor(): Promise<string | undefined> {
-		// If explicit base color is set, use it
-		if (this.result.baseColor) {
-			return this.result.baseColor;
+	private buildThemeColorControls(section: HTMLElement): void {
+		new Setting(section)
+			.setName('Theme colors')
+			.setDesc(`Override colors in light or dark theme only. Leave empty to use the colors above. Current theme: ${getCurrentTheme()}.`);
+		
+		const fields: { key: keyof ThemeColorSet; label: string }[] = [
+			{ key: 'baseColor', label: 'Base' },
+			{ key: 'iconColor', label: 'Icon' },
+			{ key: 'folderColor', label: 'Background' },
+			{ key: 'textColor', label: 'Text' },
+		];
+		
+		for (const theme of ['light', 'dark'] as ThemeVariant[]) {
+			const themeSetting = new Setting(section)
+				.setName(theme === 'light' ? 'Light theme' : 'Dark theme');
+			themeSetting.settingEl.addClass('folder-config-theme-colors');
+			
+			for (const field of fields) {
+				themeSetting.addText(text => {
+					text
+						.setPlaceholder(field.label)
+						.setValue(this.result.themeColors?.[theme]?.[field.key] || '')
+						.onChange((value) => {
+							const trimmed = value.trim();
+							if (trimmed && !/^#[0-9A-F]{6}$/i.test(trimmed)) {
+								return; // Wait for a complete hex color
+							}
+							this.setThemeColor(theme, field.key, trimmed || undefined);
+							this.updatePreview().catch(console.error);
+						});
+					text.inputEl.title = `${field.label} color in ${theme} theme`;
+				});
+			}
 		}
-		
-		// Otherwise, compute it (from palette if root + auto enabled, or from parent)
-		if (!this.settings || !this.folderPath) {
-			return undefined;
+	}
+
+	/**
+	 * Set or clear one theme color, dropping empty theme entries
+	 */
+	private setThemeColor(theme: ThemeVariant, key: keyof ThemeColorSet, color: string | undefined): void {
+		const themeColors: ThemeColors = this.result.themeColors || {};
+		const colorSet: ThemeColorSet = themeColors[theme] || {};
+		if (color) {
+			colorSet[key] = color;
+		} else {
+			delete colorSet[key];
 		}
 		
-		const pathParts = this.folderPath.split('/');
-		const isRootFolder = pathParts.length === 1;
-		
-		// Root folder: get from palette if auto-color enabled
-		if (isRootFolder && this.settings.autoColorEnabled) {
-			const rootFolders = this.getRootFolders();
-			const rootIndex = rootFolders.indexOf(this.folderPath);
-			if (rootIndex >= 0) {
-				const autoColors = await this.generateAutoColors(rootFolders);
-				if (rootIndex < autoColors.length) {
-					return autoColors[rootIndex];
-				}
-			}
+		if (Object.keys(colorSet).length > 0) {
+			themeColors[theme] = colorSet;
+		} else {
+			delete themeColors[theme];
 		}
+		this.result.themeColors = (themeColors.light || themeColors.dark) ? themeColors : undefined;
+	}
+
+	/**
+	 * Build controls for auto-coloring this folder's direct children from a palette
+	 */
+	private buildChildAutoColorControls(container: HTMLElement): void {
+		const autoColorRow = container.createDiv();
+		autoColorRow.addClass('folder-config-toggle-row');
 		
-		// Subfolder: inherit from parent if allowed
-		if (!isRootFolder) {
-			// Check if ANY ancestor has inheritance disabled
-			let canInherit = true;
-			for (let i = pathParts.length - 1; i > 0; i--) {
-				const ancestorPath = pathParts.slice(0, i).join('/');
-				const ancestorConfig = this.settings.folderConfigs[ancestorPath];
-				if (ancestorConfig && ancestorConfig.inheritBaseColor === false) {
-					canInherit = false;
-					break;
-				}
-			}
-			
-			if (canInherit) {
-				const parentPath = pathParts.slice(0, -1).join('/');
-				const parentBaseColor = await this.getBaseColorForPath(parentPath);
-				if (parentBaseColor) {
-					// Apply child base transformation
-					const transformedColor = this.applyChildBaseTransformation(parentBaseColor);
-					if (transformedColor) {
-						return transformedColor;
-					}
-				}
-			}
+		new Setting(autoColorRow)
+			.setName('Auto-color children')
+			.setDesc('Give each direct subfolder its own base color from a palette')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.result.childAutoColor !== undefined)
+					.onChange((value) => {
+						// Tree mode spans the whole vault, so children start from a plain gradient instead
+						const mode = this.settings?.autoColorMode ?? 'gradient';
+						this.result.childAutoColor = value ? { mode: mode === 'tree' ? 'gradient' : mode } : undefined;
+						this.buildColorsTab(); // Rebuild to show or hide the palette options
+					});
+			});
+		
+		const autoColor = this.result.childAutoColor;
+		if (!autoColor || !this.settings) {
+			return;
 		}
 		
-		return undefined;
+		new Setting(autoColorRow)
+			.setName('Palette')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Active palette');
+				this.settings?.colorPalettes.forEach((palette, index) => {
+					dropdown.addOption(String(index), palette.name);
+				});
+				dropdown.setValue(autoColor.paletteIndex !== undefined ? String(autoColor.paletteIndex) : '');
+				dropdown.onChange((value) => {
+					autoColor.paletteIndex = value === '' ? undefined : parseInt(value, 10);
+				});
+			});
+		
+		new Setting(autoColorRow)
+			.setName('Color mode')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('gradient', 'Gradient')
+					.addOption('repeat', 'Repeat')
+					.addOption('heatmap', 'Heatmap');
+				dropdown.setValue(autoColor.mode);
+				dropdown.onChange((value) => {
+					autoColor.mode = value as ChildAutoColor['mode'];
+				});
+			});
 	}
 
 	/**
-	 * Get base color for a specific path (recursive helper)
+	 * Build controls for overriding the child base transformation in this folder's subtree
 	 */
-	private async getBaseColorForPath(folderPath: string): Promise<string | undefined> {
-		const pathParts = folderPath.split('/');
-		const isRootFolder = pathParts.length === 1;
-		
-		// Check for explicit base color in config
-		const config = this.settings?.folderConfigs[folderPath];
-		if (config?.baseColor) {
-			return config.baseColor;
+	private buildChildTransformationControls(section: HTMLElement): void {
+		section.empty();
+		const override = this.result.childTransformation;
+		
+		new Setting(section)
+			.setName('Override child transformation')
+			.setDesc('Use a different child base transformation for everything below this folder')
+			.addToggle(toggle => {
+				toggle
+					.setValue(override !== undefined)
+					.onChange((value) => {
+						if (value) {
+							// Start from the transformation currently in effect
+							const inherited = this.getInheritedChildTransformation();
+							this.result.childTransformation = { ...(inherited ?? { type: 'lightness', adjustment: 10 }) };
+							if (inherited?.steps) {
+								this.result.childTransformation.steps = inherited.steps.map(step => ({ ...step }));
+							}
+							if (inherited?.depthTransformations) {
+								this.result.childTransformation.depthTransformations = inherited.depthTransformations.map(step => ({ ...step }));
+							}
+						} else {
+							this.result.childTransformation = undefined;
+						}
+						this.buildChildTransformationControls(section);
+					});
+			});
+		
+		if (!override) {
+			return;
 		}
 		
-		// Root folder: get from palette if auto-color enabled
-		if (isRootFolder && this.settings?.autoColorEnabled) {
-			const rootFolders = this.getRootFolders();
-			const rootIndex = rootFolders.indexOf(folderPath);
-			if (rootIndex >= 0) {
-				const autoColors = await this.generateAutoColors(rootFolders);
-				if (rootIndex < autoColors.length) {
-					return autoColors[rootIndex];
+		new Setting(section)
+			.setName('Transformation type')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('none', 'None (no inheritance)')
+					.addOption('lightness', 'Lightness adjustment')
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.addOption('hsl', 'HSL transformation')
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.addOption('oklch', 'OKLCH transformation (perceptual)');
+				// Steps are edited in the plugin settings; an override can keep the ones it started from
+				if (override.steps) {
+					dropdown.addOption('pipeline', `Multiple steps (${override.steps.length})`);
 				}
-			}
+				dropdown.setValue(override.type);
+				dropdown.onChange((value) => {
+					override.type = value as ChildBaseTransformation['type'];
+					if (override.type === 'lightness' && override.adjustment === undefined) override.adjustment = 10;
+					this.buildChildTransformationControls(section);
+				});
+			});
+		
+		// Preview is created before the numeric inputs so they can refresh it
+		const preview = section.createDiv();
+		preview.addClass('folder-config-child-preview');
+		const updateChildPreview = () => this.renderChildTransformationPreview(preview, override);
+		
+		const addNumberSetting = (name: string, key: 'adjustment' | 'hue' | 'saturation' | 'lightness' | 'chroma' | 'backgroundOpacity', min: number, max: number, fallback: number) => {
+			new Setting(section)
+				.setName(name)
+				.addText(text => {
+					text
+						.setPlaceholder(String(fallback))
+						.setValue(override[key] !== undefined ? String(override[key]) : String(fallback))
+						.onChange((value) => {
+							const numValue = value.trim() === '' ? fallback : parseFloat(value);
+							if (!isNaN(numValue)) {
+								override[key] = Math.max(min, Math.min(max, numValue));
+								updateChildPreview();
+							}
+						});
+				});
+		};
+		
+		if (override.type === 'lightness') {
+			addNumberSetting('Lightness adjustment', 'adjustment', -100, 100, 10);
+		} else if (override.type === 'hsl') {
+			addNumberSetting('Hue shift', 'hue', -180, 180, 0);
+			addNumberSetting('Saturation adjustment', 'saturation', -100, 100, 0);
+			addNumberSetting('Lightness adjustment', 'lightness', -100, 100, 0);
+		} else if (override.type === 'oklch') {
+			addNumberSetting('Lightness adjustment', 'lightness', -100, 100, 0);
+			addNumberSetting('Chroma adjustment', 'chroma', -100, 100, 0);
+			addNumberSetting('Hue shift', 'hue', -180, 180, 0);
 		}
 		
-		// Subfolder: inherit from parent if allowed
-		if (!isRootFolder) {
-			// Check if ANY ancestor has inheritance disabled
-			let canInherit = true;
-			for (let i = pathParts.length - 1; i > 0; i--) {
-				const ancestorPath = pathParts.slice(0, i).join('/');
-				const ancestorConfig = this.settings?.folderConfigs[ancestorPath];
-				if (ancestorConfig && ancestorConfig.inheritBaseColor === false) {
-					canInherit = false;
-					break;
-				}
-			}
-			
-			if (canInherit) {
-				const parentPath = pathParts.slice(0, -1).join('/');
-				const parentBaseColor = await this.getBaseColorForPath(parentPath);
-				if (parentBaseColor) {
-					// Apply child base transformation
-					const transformedColor = this.applyChildBaseTransformation(parentBaseColor);
-					if (transformedColor) {
-						return transformedColor;
-					}
-				}
-			}
+		if (override.type !== 'none') {
+			new Setting(section)
+				.setName('Use gradient')
+				.setDesc('Interpolate between parent and next sibling before applying transformation')
+				.addToggle(toggle => {
+					toggle
+						.setValue(override.useGradient === true)
+						.onChange((value) => {
+							override.useGradient = value;
+						});
+				});
 		}
 		
-		return undefined;
+		addNumberSetting('Background opacity', 'backgroundOpacity', 0, 100, 100);
+		
+		// Keep the preview at the bottom of the section
+		section.appendChild(preview);
+		updateChildPreview();
 	}
 
 	/**
-	 * Apply child base transformation to get child's base color from parent's base color
+	 * Render a live preview of three cumulative child levels below this folder's base color
 	 */
-	private applyChildBaseTransformation(parentBaseColor: string): string | undefined {
-		if (!this.settings) return undefined;
+	private renderChildTransformationPreview(preview: HTMLElement, transformation: ChildBaseTransformation): void {
+		preview.empty();
 		
-		const transformation = this.settings.childBaseTransformation;
+		const baseColor = this.getBaseColor();
+		if (!baseColor) {
+			preview.createSpan({ text: 'Set a base color to preview child colors', cls: 'folder-config-computed-text' });
+			return;
+		}
 		
-		// If type is 'none', children don't inherit
-		if (transformation.type === 'none') {
-			return undefined;
+		const addSwatch = (label: string, color: string) => {
+			const swatch = preview.createDiv();
+			swatch.addClass('folder-config-child-swatch');
+			const box = swatch.createDiv();
+			box.addClass('folder-config-child-swatch-color');
+			setCssProps(box, { backgroundColor: color });
+			swatch.createSpan({ text: label });
+		};
+		
+		addSwatch('This', baseColor);
+		// This folder owns the override, so its per-depth table starts at its direct children
+		let currentColor = baseColor;
+		for (let i = 0; i < 3; i++) {
+			const childColor = deriveChildBaseColor(currentColor, transformation, i + 1, getThemeBackgroundColor(), this.settings?.gradientInterpolation);
+			if (!childColor) break;
+			currentColor = childColor;
+			addSwatch(`L${i + 1}`, childColor);
 		}
+	}
+
+	/**
+	 * Build controls for applying this folder's icon and explicit colors to its subfolders
+	 */
+	private buildSubfolderControls(container: HTMLElement): void {
+		const subfolderRow = container.createDiv();
+		subfolderRow.addClass('folder-config-toggle-row');
 		
-		// Apply the selected transformation (lightness or HSL)
-		if (transformation.type === 'hsl') {
-			return applyHSLTransformation(parentBaseColor, {
-				hue: transformation.hue || 0,
-				saturation: transformation.saturation || 0,
-				lightness: transformation.lightness || 0,
+		new Setting(subfolderRow)
+			.setName('Apply to subfolders')
+			.setDesc('Subfolders without their own value use this icon and these explicit colors')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.result.applyToSubfolders === true)
+					.onChange((value) => {
+						this.result.applyToSubfolders = value;
+						this.buildColorsTab(); // Rebuild to show or hide the subfolder options
+					});
 			});
-		} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
-			return applyLightnessTransformation(parentBaseColor, transformation.adjustment);
+		
+		if (!this.result.applyToSubfolders) {
+			return;
 		}
 		
-		return parentBaseColor;
+		new Setting(subfolderRow)
+			.setName('Inheritance depth')
+			.setDesc('How many levels below this folder inherit (empty = all levels)')
+			.addText(text => {
+				text
+					.setPlaceholder('All')
+					.setValue(this.result.subfolderDepth !== undefined ? String(this.result.subfolderDepth) : '')
+					.onChange((value) => {
+						const numValue = parseInt(value, 10);
+						this.result.subfolderDepth = !isNaN(numValue) && numValue >= 1 ? numValue : undefined;
+					});
+			});
+		
+		new Setting(subfolderRow)
+			.setName('Excluded subfolders')
+			.setDesc('One path per line, relative to this folder. Excluded subfolders and everything below them do not inherit.')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('Archive')
+					.setValue((this.result.subfolderExclusions || []).join('\n'))
+					.onChange((value) => {
+						const exclusions = value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+						this.result.subfolderExclusions = exclusions.length > 0 ? exclusions : undefined;
+					});
+			});
+	}
+
+	/**
+	 * Get base color for this folder or file: FolderManager's result with the pending edits applied
+	 */
+	private getBaseColor(): string | undefined {
+		// Pattern configs apply to many folders, so there is no single computed base color
+		if (!this.folderManager || !this.folderPath || isPatternKey(this.folderPath)) {
+			return this.result.baseColor;
+		}
+		return this.folderManager.getBaseColorForPath(this.folderPath, this.itemType, this.result);
+	}
+
+	/**
+	 * Get the background opacity (0-100) this folder or file is rendered with
+	 */
+	private getOpacity(): number {
+		// Pattern configs apply to many folders, so there is no single computed opacity
+		if (!this.folderManager || !this.folderPath || isPatternKey(this.folderPath)) {
+			return this.settings?.folderColorOpacity ?? 100;
+		}
+		return this.folderManager.getOpacityForPath(this.folderPath);
+	}
+
+	/**
+	 * Get the child base transformation this folder's children use without a pending override of its own
+	 */
+	private getInheritedChildTransformation(): ChildBaseTransformation | undefined {
+		// Pattern configs apply to many folders, so only the global setting is known to be in effect
+		if (!this.folderManager || !this.folderPath || isPatternKey(this.folderPath)) {
+			return this.settings?.childBaseTransformation;
+		}
+		return this.folderManager.getChildTransformationForPath(this.folderPath, { ...this.result, childTransformation: undefined });
 	}
 
 	/**
@@ -571,15 +810,15 @@ export class FolderConfigModal extends Modal {
 			individualSection.addClass('folder-config-individual-colors-section');
 			
 			// Icon color
-			const iconComputed = this.applyTransformation(baseColorToUse, this.settings.iconColorTransformation);
+			const iconComputed = this.applyTransformation(baseColorToUse, this.getTransformation('iconColorTransformation'));
 			this.addIndividualColorControl(individualSection, 'Icon', 'iconColor', iconComputed, this.result.iconColor);
 			
 			// Background color
-			const folderComputed = this.applyTransformation(baseColorToUse, this.settings.folderColorTransformation);
+			const folderComputed = this.applyTransformation(baseColorToUse, this.getTransformation('folderColorTransformation'));
 			this.addIndividualColorControl(individualSection, 'Background', 'folderColor', folderComputed, this.result.folderColor);
 			
 			// Text color
-			const textComputed = this.applyTransformation(baseColorToUse, this.settings.textColorTransformation);
+			const textComputed = this.getTextColor(baseColorToUse);
 			this.addIndividualColorControl(individualSection, 'Text', 'textColor', textComputed, this.result.textColor);
 		}
 	}
@@ -883,15 +1122,15 @@ export class FolderConfigModal extends Modal {
 			
 			// Icon color
 			if (this.settings) {
-				const iconComputed = this.applyTransformation(baseColorToUse, this.settings.iconColorTransformation);
+				const iconComputed = this.applyTransformation(baseColorToUse, this.getTransformation('iconColorTransformation'));
 				this.addComputedColorDisplay(computedSection, 'Icon', iconComputed);
 				
 				// Folder color
-				const folderComputed = this.applyTransformation(baseColorToUse, this.settings.folderColorTransformation);
+				const folderComputed = this.applyTransformation(baseColorToUse, this.getTransformation('folderColorTransformation'));
 				this.addComputedColorDisplay(computedSection, 'Background', folderComputed);
 				
 				// Text color
-				const textComputed = this.applyTransformation(baseColorToUse, this.settings.textColorTransformation);
+				const textComputed = this.getTextColor(baseColorToUse);
 				this.addComputedColorDisplay(computedSection, 'Text', textComputed);
 			}
 		}
@@ -909,7 +1148,7 @@ export class FolderConfigModal extends Modal {
 			if (this.result.iconColor !== undefined) {
 				// Explicitly set - not computed
 			} else if (baseColorToUse) {
-				iconComputed = this.applyTransformation(baseColorToUse, this.settings.iconColorTransformation);
+				iconComputed = this.applyTransformation(baseColorToUse, this.getTransformation('iconColorTransformation'));
 			}
 			
 			// In individual colors mode, controls should NOT be disabled even if computed
@@ -926,7 +1165,7 @@ export class FolderConfigModal extends Modal {
 			if (this.result.folderColor !== undefined) {
 				// Explicitly set - not computed
 			} else if (baseColorToUse) {
-				folderComputed = this.applyTransformation(baseColorToUse, this.settings.folderColorTransformation);
+				folderComputed = this.applyTransformation(baseColorToUse, this.getTransformation('folderColorTransformation'));
 			}
 			
 			this.addColorInputWithAutoColor(
@@ -941,7 +1180,7 @@ export class FolderConfigModal extends Modal {
 			if (this.result.textColor !== undefined) {
 				// Explicitly set - not computed
 			} else if (baseColorToUse) {
-				textComputed = this.applyTransformation(baseColorToUse, this.settings.textColorTransformation);
+				textComputed = this.getTextColor(baseColorToUse);
 			}
 			
 			this.addColorInputWithAutoColor(
@@ -988,20 +1227,30 @@ export class FolderConfigModal extends Modal {
 		});
 	}
 
+	/**
+	 * Get a global element transformation for the current theme
+	 */
+	private getTransformation(key: keyof ThemeTransformations): ColorTransformation {
+		if (!this.settings) return { type: 'none' };
+		return getThemeTransformation(this.settings, key, getCurrentTheme());
+	}
+
 	/**
 	 * Apply transformation to a color
+	 * Contrast transformations are measured against the given background (theme background by default)
 	 */
-	private applyTransformation(baseColor: string, transformation: ColorTransformation): string {
-		if (transformation.type === 'hsl') {
-			return applyHSLTransformation(baseColor, {
-				hue: transformation.hue,
-				saturation: transformation.saturation,
-				lightness: transformation.lightness,
-			});
-		} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
-			return applyLightnessTransformation(baseColor, transformation.adjustment);
-		}
-		return baseColor; // 'none' transformation
+	private applyTransformation(baseColor: string, transformation: ColorTransformation, background?: string): string {
+		return applyColorTransformation(baseColor, transformation, background ?? getThemeBackgroundColor(), this.settings?.gradientInterpolation);
+	}
+
+	/**
+	 * Compute the text color from a base color
+	 * Contrast-safe text is measured against the background color blended over the theme background
+	 */
+	private getTextColor(baseColor: string): string {
+		const folderColor = this.result.folderColor || this.applyTransformation(baseColor, this.getTransformation('folderColorTransformation'));
+		const background = blendOverBackground(folderColor, getThemeBackgroundColor(), this.getOpacity());
+		return this.applyTransformation(baseColor, this.getTransformation('textColorTransformation'), background);
 	}
 
 	private buildPreviewAndButtons(contentEl: HTMLElement): void {
@@ -1052,6 +1301,18 @@ export class FolderConfigModal extends Modal {
 		previewText.addClass('preview-text');
 		previewText.setText(this.folderPath ? this.folderPath.split('/').pop() || 'Folder Name' : 'Folder Name');
 
+		// Color vision simulation for the preview only
+		new DropdownComponent(this.previewEl)
+			.addOption('none', 'Typical vision')
+			.addOption('protanopia', 'Protanopia')
+			.addOption('deuteranopia', 'Deuteranopia')
+			.addOption('tritanopia', 'Tritanopia')
+			.setValue(this.visionSimulation)
+			.onChange(value => {
+				this.visionSimulation = value as VisionDeficiency;
+				this.updatePreview().catch(console.error);
+			});
+
 		// Buttons on the same line
 		const buttonContainer = bottomContainer.createDiv();
 		buttonContainer.addClass('folder-config-buttons');
@@ -1070,43 +1331,6 @@ export class FolderConfigModal extends Modal {
 		};
 	}
 
-	/**
-	 * Get root folders (helper for modal)
-	 */
-	private getRootFolders(): string[] {
-		const allFolders = this.app.vault.getAllFolders();
-		const rootFolders: string[] = [];
-		const seen = new Set<string>();
-		
-		for (const folder of allFolders) {
-			const folderPath = folder.path;
-			const pathParts = folderPath.split('/');
-			if (pathParts.length === 1 && !seen.has(folderPath)) {
-				rootFolders.push(folderPath);
-				seen.add(folderPath);
-			}
-		}
-		
-		return rootFolders.sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
-	}
-
-	/**
-	 * Generate auto-colors for root folders (helper for modal)
-	 */
-	private async generateAutoColors(rootFolders: string[]): Promise<string[]> {
-		if (!this.settings || rootFolders.length === 0) return [];
-		
-		const activePalette = this.settings.colorPalettes[this.settings.activePaletteIndex || 0];
-		if (!activePalette || activePalette.colors.length === 0) return [];
-		
-		const { generateGradientColors, generateRepeatingColors } = await import('../utils/colorUtils');
-		if (this.settings.autoColorMode === 'gradient') {
-			return generateGradientColors(activePalette.colors, rootFolders.length);
-		} else {
-			return generateRepeatingColors(activePalette.colors, rootFolders.length);
-		}
-	}
-
 	private addColorInputWithAutoColor(
 		container: HTMLElement, 
 		label: string, 
@@ -1412,12 +1636,12 @@ export class FolderConfigModal extends Modal {
 					// Calculate icon color (explicit or from base + transformation)
 					let iconColor = this.result.iconColor;
 					if (!iconColor && this.settings) {
-						const baseColor = await this.getBaseColor();
+						const baseColor = this.getBaseColor();
 						if (baseColor) {
-							iconColor = this.applyTransformation(baseColor, this.settings.iconColorTransformation);
+							iconColor = this.applyTransformation(baseColor, this.getTransformation('iconColorTransformation'));
 						}
 					}
-					const iconElement = await renderIconAsSvg(iconInfo!, 16, iconColor, this.app);
+					const iconElement = await renderIconAsSvg(iconInfo!, 16, iconColor && simulateColorVision(iconColor, this.visionSimulation), this.app);
 					this.previewIcon.appendChild(iconElement);
 				})().catch(console.error);
 			} else if (this.result.icon && (this.result.icon.startsWith('http') || this.result.icon.startsWith('/'))) {
@@ -1428,7 +1652,7 @@ export class FolderConfigModal extends Modal {
 					width: '16px',
 					height: '16px',
 					display: 'block',
-					...(this.result.iconColor && { filter: getColorFilter(this.result.iconColor) }),
+					...(this.result.iconColor && { filter: getColorFilter(simulateColorVision(this.result.iconColor, this.visionSimulation)) }),
 				});
 				this.previewIcon.appendChild(img);
 			}
@@ -1439,17 +1663,17 @@ export class FolderConfigModal extends Modal {
 		const previewText = previewContent.querySelector('.preview-text') as HTMLElement;
 		if (previewText && this.settings) {
 			// Get base color
-			const baseColor = await this.getBaseColor();
+			const baseColor = this.getBaseColor();
 			
 			// Calculate folder color (explicit or from base + transformation)
 			let folderColor = this.result.folderColor;
 			if (!folderColor && baseColor) {
-				folderColor = this.applyTransformation(baseColor, this.settings.folderColorTransformation);
+				folderColor = this.applyTransformation(baseColor, this.getTransformation('folderColorTransformation'));
 			}
 			
 			if (folderColor) {
-				const opacity = (this.settings?.folderColorOpacity ?? 100) / 100;
-				const bgColor = this.hexToRgba(folderColor, opacity);
+				const opacity = this.getOpacity() / 100;
+				const bgColor = this.hexToRgba(simulateColorVision(folderColor, this.visionSimulation), opacity);
 				setCssProps(previewContent, {
 					backgroundColor: bgColor,
 				});
@@ -1460,12 +1684,12 @@ export class FolderConfigModal extends Modal {
 			// Calculate text color (explicit or from base + transformation)
 			let textColor = this.result.textColor;
 			if (!textColor && baseColor) {
-				textColor = this.applyTransformation(baseColor, this.settings.textColorTransformation);
+				textColor = this.getTextColor(baseColor);
 			}
 			
 			if (textColor) {
 				setCssProps(previewText, {
-					color: textColor,
+					color: simulateColorVision(textColor, this.visionSimulation),
 				});
 			} else {
 				previewText.style.removeProperty('color');
@@ -1476,6 +1700,8 @@ export class FolderConfigModal extends Modal {
 	}
 
 	private hexToRgba(hex: string, opacity: number): string {
+		opacity *= getHexAlpha(hex);
+		
 		// Remove # if present
 		hex = hex.replace('#', '');
 		
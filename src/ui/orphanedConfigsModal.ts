@@ -0,0 +1,143 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { FolderManager, OrphanedConfig } from '../folderManager';
+
+/**
+ * Modal listing configs whose folder or file no longer exists,
+ * with bulk delete and re-point actions
+ */
+export class OrphanedConfigsModal extends Modal {
+	private folderManager: FolderManager;
+	private onChange: () => void;
+	private orphans: OrphanedConfig[] = [];
+	private selected: Set<string> = new Set();
+	private targets: Map<string, string> = new Map(); // Orphan path -> chosen new location
+
+	constructor(app: App, folderManager: FolderManager, onChange?: () => void) {
+		super(app);
+		this.folderManager = folderManager;
+		this.onChange = onChange || (() => {});
+	}
+
+	onOpen(): void {
+		this.refresh();
+	}
+
+	/**
+	 * Re-run the audit and render the results
+	 */
+	private refresh(): void {
+		this.orphans = this.folderManager.findOrphanedConfigs();
+		// Only orphans with nothing to re-point to start selected, so deleting can't discard a rescuable config
+		this.selected = new Set(this.orphans.filter(orphan => orphan.suggestions.length === 0).map(orphan => orphan.path));
+		this.targets = new Map();
+		for (const orphan of this.orphans) {
+			if (orphan.suggestions.length > 0) {
+				this.targets.set(orphan.path, orphan.suggestions[0]);
+			}
+		}
+		this.render();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('iconocolor-orphans-modal');
+
+		contentEl.createEl('h2', { text: 'Orphaned configurations' });
+
+		if (this.orphans.length === 0) {
+			contentEl.createEl('p', { text: 'Every configured folder and file still exists.' });
+			new Setting(contentEl)
+				.addButton(button => {
+					button.setButtonText('Close');
+					button.onClick(() => this.close());
+				});
+			return;
+		}
+
+		contentEl.createEl('p', {
+			text: `${this.orphans.length} configuration(s) point to paths that no longer exist.`,
+			cls: 'setting-item-description',
+		});
+
+		for (const orphan of this.orphans) {
+			const setting = new Setting(contentEl)
+				.setName(orphan.path)
+				.setDesc(orphan.kind === 'folder' ? 'Folder not found' : 'File not found');
+
+			setting.addDropdown(dropdown => {
+				dropdown.addOption('', orphan.suggestions.length > 0 ? 'Do not re-point' : 'No matches found');
+				for (const suggestion of orphan.suggestions) {
+					dropdown.addOption(suggestion, suggestion);
+				}
+				dropdown.setValue(this.targets.get(orphan.path) || '');
+				dropdown.onChange(value => {
+					if (value) {
+						this.targets.set(orphan.path, value);
+					} else {
+						this.targets.delete(orphan.path);
+					}
+				});
+			});
+
+			setting.addToggle(toggle => {
+				toggle
+					.setTooltip('Include in bulk action')
+					.setValue(this.selected.has(orphan.path))
+					.onChange(value => {
+						if (value) {
+							this.selected.add(orphan.path);
+						} else {
+							this.selected.delete(orphan.path);
+						}
+					});
+			});
+		}
+
+		// Bulk actions
+		new Setting(contentEl)
+			.addButton(button => {
+				button.setButtonText('Close');
+				button.onClick(() => this.close());
+			})
+			.addButton(button => {
+				button
+					.setButtonText('Delete selected')
+					.setWarning()
+					.onClick(async () => {
+						const entries = this.orphans.filter(orphan => this.selected.has(orphan.path));
+						if (entries.length === 0) {
+							new Notice('No configurations selected.');
+							return;
+						}
+						await this.folderManager.removeConfigs(entries);
+						new Notice(`Removed ${entries.length} orphaned configuration(s).`);
+						this.onChange();
+						this.refresh();
+					});
+			})
+			.addButton(button => {
+				button
+					.setButtonText('Re-point selected')
+					.setCta()
+					.onClick(async () => {
+						const moves = this.orphans
+							.filter(orphan => this.selected.has(orphan.path) && this.targets.has(orphan.path))
+							.map(orphan => ({ from: orphan.path, to: this.targets.get(orphan.path)! }));
+						if (moves.length === 0) {
+							new Notice('No selected configurations have a new location.');
+							return;
+						}
+						await this.folderManager.repointConfigs(moves);
+						new Notice(`Re-pointed ${moves.length} configuration(s).`);
+						this.onChange();
+						this.refresh();
+					});
+			});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
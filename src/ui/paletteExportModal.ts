@@ -0,0 +1,85 @@
+import { App, Modal, normalizePath, Notice, Setting, TFile } from 'obsidian';
+import { ColorPalette } from '../types';
+import { PALETTE_FORMAT_NAMES, PaletteFormat, serializePalette } from '../utils/paletteFormats';
+
+/**
+ * Modal that writes a palette to a vault file in one of the supported formats
+ */
+export class PaletteExportModal extends Modal {
+	private palette: ColorPalette;
+	private format: PaletteFormat = 'gpl';
+	private baseName: string; // File path without extension
+
+	constructor(app: App, palette: ColorPalette) {
+		super(app);
+		this.palette = palette;
+		this.baseName = palette.name.replace(/[\\/:*?"<>|]/g, '-').trim() || 'Palette';
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		new Setting(contentEl)
+			.setHeading()
+			.setName(`Export "${this.palette.name}"`);
+
+		new Setting(contentEl)
+			.setName('Format')
+			.setDesc('Light and dark theme colors are only kept in JSON')
+			.addDropdown(dropdown => {
+				for (const [format, name] of Object.entries(PALETTE_FORMAT_NAMES)) {
+					dropdown.addOption(format, name);
+				}
+				dropdown.setValue(this.format);
+				dropdown.onChange(value => {
+					this.format = value as PaletteFormat;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('File path')
+			.setDesc('Vault path without the extension, which is added for the chosen format. An existing file at this path is replaced.')
+			.addText(text => {
+				text.setValue(this.baseName);
+				text.onChange(value => {
+					this.baseName = value;
+				});
+			});
+
+		// Buttons
+		new Setting(contentEl)
+			.addButton(button => {
+				button.setButtonText('Cancel');
+				button.onClick(() => this.close());
+			})
+			.addButton(button => {
+				button.setButtonText('Export');
+				button.setCta();
+				button.onClick(async () => {
+					if (!this.baseName.trim()) {
+						new Notice('Enter a file path.');
+						return;
+					}
+					const path = normalizePath(`${this.baseName.trim()}.${this.format}`);
+					try {
+						const data = serializePalette(this.palette, this.format);
+						const existing = this.app.vault.getAbstractFileByPath(path);
+						if (existing instanceof TFile) {
+							await this.app.vault.modifyBinary(existing, data);
+						} else {
+							await this.app.vault.createBinary(path, data);
+						}
+						new Notice(`Palette exported to ${path}`);
+						this.close();
+					} catch (error) {
+						new Notice(`Failed to export palette: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					}
+				});
+			});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
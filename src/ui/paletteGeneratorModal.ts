@@ -0,0 +1,155 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { ColorPalette, PaletteGeneratorOptions, PaletteHarmony } from '../types';
+import { generateHarmonyPalette, hexToRgb } from '../utils/colorUtils';
+
+/**
+ * Modal that builds a palette from a seed color and a harmony rule,
+ * previewing the result live before it is saved
+ */
+export class PaletteGeneratorModal extends Modal {
+	private name: string;
+	private options: PaletteGeneratorOptions = {
+		seed: '#4ECDC4',
+		harmony: 'analogous',
+		count: 6,
+		minLightness: 45,
+		maxLightness: 85,
+		maxChroma: 60,
+	};
+	private onSubmit: (palette: ColorPalette) => void;
+	private previewEl: HTMLElement | null = null;
+
+	constructor(app: App, name: string, onSubmit: (palette: ColorPalette) => void) {
+		super(app);
+		this.name = name;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		new Setting(contentEl)
+			.setHeading()
+			.setName('Generate palette');
+
+		new Setting(contentEl)
+			.setName('Palette name')
+			.addText(text => {
+				text.setValue(this.name);
+				text.onChange(value => {
+					this.name = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Seed color')
+			.setDesc('The color the palette is built around')
+			.addColorPicker(picker => {
+				picker.setValue(this.options.seed);
+				picker.onChange(value => {
+					this.options.seed = value;
+					this.updatePreview();
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Harmony')
+			.setDesc('How the palette hues relate to the seed color')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('analogous', 'Analogous (neighbouring hues)')
+					.addOption('complementary', 'Complementary (opposite hue)')
+					.addOption('triadic', 'Triadic (three hues)')
+					.addOption('tetradic', 'Tetradic (four hues)')
+					.addOption('monochrome', 'Monochrome (lightness ramp)')
+					.setValue(this.options.harmony)
+					.onChange(value => {
+						this.options.harmony = value as PaletteHarmony;
+						this.updatePreview();
+					});
+			});
+
+		this.addNumberSetting(contentEl, 'Number of colors', 'Between 1 and 24', 'count', 1, 24);
+		this.addNumberSetting(contentEl, 'Minimum lightness', 'Darkest shade, 0-100', 'minLightness', 0, 100);
+		this.addNumberSetting(contentEl, 'Maximum lightness', 'Lightest shade, 0-100', 'maxLightness', 0, 100);
+		this.addNumberSetting(contentEl, 'Maximum chroma', 'Caps the seed color\'s saturation, 0-100', 'maxChroma', 0, 100);
+
+		// Live preview
+		const previewSetting = new Setting(contentEl)
+			.setName('Preview');
+		this.previewEl = previewSetting.controlEl.createDiv();
+		this.previewEl.addClass('palette-colors');
+		this.updatePreview();
+
+		// Buttons
+		new Setting(contentEl)
+			.addButton(button => {
+				button.setButtonText('Cancel');
+				button.onClick(() => this.close());
+			})
+			.addButton(button => {
+				button.setButtonText('Create');
+				button.setCta();
+				button.onClick(() => {
+					const colors = generateHarmonyPalette(this.options);
+					if (colors.length === 0) {
+						new Notice('Enter a valid seed color.');
+						return;
+					}
+					this.onSubmit({ name: this.name.trim() || 'Generated palette', colors });
+					this.close();
+				});
+			});
+	}
+
+	/**
+	 * Add a text input for a numeric generator option, clamped to its range
+	 */
+	private addNumberSetting(
+		container: HTMLElement,
+		name: string,
+		desc: string,
+		key: 'count' | 'minLightness' | 'maxLightness' | 'maxChroma',
+		min: number,
+		max: number
+	): void {
+		new Setting(container)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.setValue(String(this.options[key]));
+				text.onChange(value => {
+					const numValue = parseInt(value, 10);
+					if (!isNaN(numValue)) {
+						this.options[key] = Math.max(min, Math.min(max, numValue));
+						this.updatePreview();
+					}
+				});
+			});
+	}
+
+	/**
+	 * Re-render the preview swatches from the current options
+	 */
+	private updatePreview(): void {
+		if (!this.previewEl) return;
+		this.previewEl.empty();
+
+		if (!hexToRgb(this.options.seed)) {
+			this.previewEl.createSpan({ text: 'Invalid seed color', cls: 'setting-item-description' });
+			return;
+		}
+
+		for (const color of generateHarmonyPalette(this.options)) {
+			const swatch = this.previewEl.createDiv();
+			swatch.addClass('color-swatch');
+			swatch.style.backgroundColor = color;
+			swatch.title = color;
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,163 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { ColorPalette } from '../types';
+import { extractImagePalette, IMAGE_PALETTE_EXTENSIONS } from '../utils/imagePalette';
+
+/**
+ * Modal that builds a palette from the dominant colors of a PNG or JPEG in the vault
+ */
+export class PaletteImageModal extends Modal {
+	private onSubmit: (palette: ColorPalette, makeActive: boolean) => void;
+	private file: TFile | null = null;
+	private count = 6;
+	private name = '';
+	private makeActive = false;
+	private colors: string[] = [];
+	private previewEl: HTMLElement | null = null;
+	private extraction = 0; // Incremented per extraction so stale results are dropped
+
+	constructor(app: App, onSubmit: (palette: ColorPalette, makeActive: boolean) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		new Setting(contentEl)
+			.setHeading()
+			.setName('Palette from image');
+
+		const images = this.app.vault.getFiles()
+			.filter(file => IMAGE_PALETTE_EXTENSIONS.includes(file.extension.toLowerCase()))
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		if (images.length === 0) {
+			contentEl.createEl('p', {
+				text: 'No images found. Add a PNG or JPEG image to the vault first.',
+				cls: 'setting-item-description',
+			});
+			new Setting(contentEl)
+				.addButton(button => {
+					button.setButtonText('Close');
+					button.onClick(() => this.close());
+				});
+			return;
+		}
+
+		let nameInput: HTMLInputElement | null = null;
+		new Setting(contentEl)
+			.setName('Image')
+			.setDesc('PNG or JPEG file to take the colors from')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Select an image');
+				for (const image of images) {
+					dropdown.addOption(image.path, image.path);
+				}
+				dropdown.onChange(value => {
+					const file = this.app.vault.getAbstractFileByPath(value);
+					this.file = file instanceof TFile ? file : null;
+					// Name the palette after the image unless a name was typed
+					if (this.file && nameInput && !nameInput.value) {
+						this.name = this.file.basename;
+						nameInput.value = this.name;
+					}
+					this.updatePreview().catch(console.error);
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Number of colors')
+			.setDesc('Dominant colors to extract, between 1 and 24')
+			.addText(text => {
+				text.setValue(String(this.count));
+				text.onChange(value => {
+					const numValue = parseInt(value, 10);
+					if (!isNaN(numValue) && numValue >= 1 && numValue <= 24) {
+						this.count = numValue;
+						this.updatePreview().catch(console.error);
+					}
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Palette name')
+			.addText(text => {
+				nameInput = text.inputEl;
+				text.onChange(value => {
+					this.name = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Make active palette')
+			.setDesc('Use the new palette for auto-coloring right away')
+			.addToggle(toggle => {
+				toggle.setValue(this.makeActive);
+				toggle.onChange(value => {
+					this.makeActive = value;
+				});
+			});
+
+		// Preview
+		const previewSetting = new Setting(contentEl)
+			.setName('Preview');
+		this.previewEl = previewSetting.controlEl.createDiv();
+		this.previewEl.addClass('palette-colors');
+
+		// Buttons
+		new Setting(contentEl)
+			.addButton(button => {
+				button.setButtonText('Cancel');
+				button.onClick(() => this.close());
+			})
+			.addButton(button => {
+				button.setButtonText('Create');
+				button.setCta();
+				button.onClick(() => {
+					if (!this.file || this.colors.length === 0) {
+						new Notice('Select an image first.');
+						return;
+					}
+					this.onSubmit({ name: this.name.trim() || this.file.basename, colors: [...this.colors] }, this.makeActive);
+					this.close();
+				});
+			});
+	}
+
+	/**
+	 * Extract colors from the selected image and show them
+	 */
+	private async updatePreview(): Promise<void> {
+		if (!this.previewEl) return;
+		const extraction = ++this.extraction;
+		this.colors = [];
+
+		if (!this.file) {
+			this.previewEl.empty();
+			return;
+		}
+
+		const result = await extractImagePalette(this.app, this.file, this.count);
+		if (extraction !== this.extraction) return; // A newer extraction started meanwhile
+
+		this.previewEl.empty();
+		if (!result.colors) {
+			this.previewEl.createSpan({ text: result.error || 'Unknown error', cls: 'setting-item-description' });
+			return;
+		}
+
+		this.colors = result.colors;
+		for (const color of this.colors) {
+			const swatch = this.previewEl.createDiv();
+			swatch.addClass('color-swatch');
+			swatch.style.backgroundColor = color;
+			swatch.title = color;
+		}
+	}
+
+	onClose(): void {
+		this.extraction++;
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
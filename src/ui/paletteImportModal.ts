@@ -0,0 +1,139 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { ColorPalette } from '../types';
+import { getPaletteFormat, PaletteParseResult, parsePalette } from '../utils/paletteFormats';
+
+/**
+ * Modal that imports a palette from a .gpl, .ase, .json or .css file in the vault,
+ * previewing the parsed colors before they are added
+ */
+export class PaletteImportModal extends Modal {
+	private onSubmit: (palette: ColorPalette) => void;
+	private result: PaletteParseResult | null = null;
+	private previewEl: HTMLElement | null = null;
+
+	constructor(app: App, onSubmit: (palette: ColorPalette) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		new Setting(contentEl)
+			.setHeading()
+			.setName('Import palette');
+
+		const files = this.app.vault.getFiles()
+			.filter(file => getPaletteFormat(file.extension) !== null)
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		if (files.length === 0) {
+			contentEl.createEl('p', {
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				text: 'No palette files found. Add a .gpl, .ase, .json or .css file to the vault first.',
+				cls: 'setting-item-description',
+			});
+			new Setting(contentEl)
+				.addButton(button => {
+					button.setButtonText('Close');
+					button.onClick(() => this.close());
+				});
+			return;
+		}
+
+		new Setting(contentEl)
+			.setName('File')
+			// eslint-disable-next-line obsidianmd/ui/sentence-case
+			.setDesc('GIMP palette, Adobe swatch exchange, JSON or CSS custom properties')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Select a file');
+				for (const file of files) {
+					dropdown.addOption(file.path, file.path);
+				}
+				dropdown.onChange(async (value) => {
+					const file = this.app.vault.getAbstractFileByPath(value);
+					this.result = file instanceof TFile ? await this.readPalette(file) : null;
+					this.updatePreview();
+				});
+			});
+
+		this.previewEl = contentEl.createDiv();
+		this.updatePreview();
+
+		// Buttons
+		new Setting(contentEl)
+			.addButton(button => {
+				button.setButtonText('Cancel');
+				button.onClick(() => this.close());
+			})
+			.addButton(button => {
+				button.setButtonText('Import');
+				button.setCta();
+				button.onClick(() => {
+					if (!this.result?.palette) {
+						new Notice('Select a valid palette file first.');
+						return;
+					}
+					this.onSubmit(this.result.palette);
+					this.close();
+				});
+			});
+	}
+
+	/**
+	 * Read and parse a palette file
+	 */
+	private async readPalette(file: TFile): Promise<PaletteParseResult> {
+		const format = getPaletteFormat(file.extension);
+		if (!format) {
+			return { success: false, error: 'Unsupported file type' };
+		}
+		try {
+			return parsePalette(await this.app.vault.readBinary(file), format, file.basename);
+		} catch (error) {
+			return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+		}
+	}
+
+	/**
+	 * Show the parsed palette, or why the file couldn't be read
+	 */
+	private updatePreview(): void {
+		if (!this.previewEl) return;
+		this.previewEl.empty();
+		if (!this.result) return;
+
+		const { palette, error, skipped } = this.result;
+		if (!palette) {
+			new Setting(this.previewEl)
+				.setName('Cannot import this file')
+				.setDesc(error || 'Unknown error');
+			return;
+		}
+
+		const details = [`${palette.colors.length} colors`];
+		if (palette.themeColors?.light || palette.themeColors?.dark) {
+			details.push('with theme variants');
+		}
+		if (skipped) {
+			details.push(`${skipped} invalid entr${skipped === 1 ? 'y' : 'ies'} skipped`);
+		}
+
+		const previewSetting = new Setting(this.previewEl)
+			.setName(palette.name)
+			.setDesc(details.join(', '));
+		const colorContainer = previewSetting.controlEl.createDiv();
+		colorContainer.addClass('palette-colors');
+		for (const color of palette.colors) {
+			const swatch = colorContainer.createDiv();
+			swatch.addClass('color-swatch');
+			swatch.style.backgroundColor = color;
+			swatch.title = color;
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
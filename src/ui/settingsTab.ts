@@ -1,14 +1,75 @@
-import { App, Modal, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, Modal, PluginSettingTab, Setting, Notice, TFile, TFolder } from 'obsidian';
 import { IconocolorPlugin } from '../main';
-import { FolderConfig, ColorPalette, DefaultIconRule, ColorTransformation, SettingsProfile, FolderConfigWithDeletions } from '../types';
+import { FolderConfig, FileConfig, ColorPalette, DefaultIconRule, ColorTransformation, SettingsProfile, FolderConfigWithDeletions, AutoColorAssignment, AutoColorMode, BaseColorStrategy, DepthColoring, HeatmapMetric, InterpolationSpace, RenderMode, ThemeTransformations, ThemeVariant, TransformationStep, VisionDeficiency } from '../types';
 import { FolderConfigModal } from './folderConfigModal';
 import { getInstalledIconPacks, deleteIconPack, IconPack } from '../utils/iconPackManager';
 import { BrowsePacksModal } from './browsePacksModal';
-import { applyHSLTransformation, applyLightnessTransformation } from '../utils/colorUtils';
+import { OrphanedConfigsModal } from './orphanedConfigsModal';
+import { PaletteExportModal } from './paletteExportModal';
+import { PaletteGeneratorModal } from './paletteGeneratorModal';
+import { PaletteImageModal } from './paletteImageModal';
+import { PaletteImportModal } from './paletteImportModal';
+import { GLOB_PREFIX, REGEX_PREFIX, compilePatternKey, isPatternKey } from '../utils/pathPatterns';
+import { applyColorTransformation, blendOverBackground, deriveChildBaseColor, findIndistinctNeighbors, generateGradientColors, getContrastRatio, sampleGradientColor, simulateColorVision } from '../utils/colorUtils';
 import { setCssProps } from '../utils/domUtils';
+import { getCurrentTheme, getThemeBackgroundColor, getThemePaletteColors, getThemeTransformation } from '../utils/themeUtils';
+
+const GRADIENT_PREVIEW_STOPS = 32; // Samples per palette gradient strip
+
+// Dropdown names for pipeline step types
+const STEP_TYPE_NAMES: Record<TransformationStep['type'], string> = {
+	lightness: 'Lightness adjustment',
+	hsl: 'HSL transformation',
+	oklch: 'OKLCH transformation (perceptual)',
+	contrast: 'Contrast-safe (WCAG)',
+	mix: 'Mix with color',
+	tint: 'Tint (toward white)',
+	shade: 'Shade (toward black)',
+	complement: 'Complementary hue',
+	desaturate: 'Desaturate',
+	alpha: 'Transparency',
+};
+
+// Numeric inputs shown for each step type (mix also gets a color input)
+type StepFieldKey = 'adjustment' | 'hue' | 'saturation' | 'lightness' | 'chroma' | 'ratio' | 'amount' | 'alpha';
+const STEP_FIELDS: Record<TransformationStep['type'], { key: StepFieldKey; name: string; min: number; max: number; fallback: number }[]> = {
+	lightness: [
+		{ key: 'adjustment', name: 'Lightness adjustment (-100 to 100)', min: -100, max: 100, fallback: 0 },
+	],
+	hsl: [
+		{ key: 'hue', name: 'Hue shift (-180 to 180)', min: -180, max: 180, fallback: 0 },
+		{ key: 'saturation', name: 'Saturation adjustment (-100 to 100)', min: -100, max: 100, fallback: 0 },
+		{ key: 'lightness', name: 'Lightness adjustment (-100 to 100)', min: -100, max: 100, fallback: 0 },
+	],
+	oklch: [
+		{ key: 'lightness', name: 'Lightness adjustment (-100 to 100)', min: -100, max: 100, fallback: 0 },
+		{ key: 'chroma', name: 'Chroma adjustment (-100 to 100)', min: -100, max: 100, fallback: 0 },
+		{ key: 'hue', name: 'Hue shift (-180 to 180)', min: -180, max: 180, fallback: 0 },
+	],
+	contrast: [
+		{ key: 'ratio', name: 'Minimum contrast ratio (1 to 21)', min: 1, max: 21, fallback: 4.5 },
+	],
+	mix: [
+		{ key: 'amount', name: 'Mix amount in percent (0 to 100)', min: 0, max: 100, fallback: 30 },
+	],
+	tint: [
+		{ key: 'amount', name: 'Tint amount in percent (0 to 100)', min: 0, max: 100, fallback: 30 },
+	],
+	shade: [
+		{ key: 'amount', name: 'Shade amount in percent (0 to 100)', min: 0, max: 100, fallback: 30 },
+	],
+	complement: [],
+	desaturate: [
+		{ key: 'amount', name: 'Desaturation in percent (0 to 100, 100 = grayscale)', min: 0, max: 100, fallback: 100 },
+	],
+	alpha: [
+		{ key: 'alpha', name: 'Opacity in percent (0 to 100)', min: 0, max: 100, fallback: 50 },
+	],
+};
 
 export class IconocolorSettingTab extends PluginSettingTab {
 	plugin: IconocolorPlugin;
+	private transformationTheme: 'shared' | ThemeVariant = 'shared'; // Which transformations the editor shows
 
 	constructor(app: App, plugin: IconocolorPlugin) {
 		super(app, plugin);
@@ -129,6 +190,21 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			opacityTextInput = text.inputEl;
 		});
 
+		new Setting(containerEl)
+			.setName('Rendering')
+			.setDesc('Inline styles colors each explorer row directly. Generated stylesheet compiles all colors into one stylesheet that is only rebuilt when settings or folders change, which is faster in large vaults.')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('inline', 'Inline styles')
+					.addOption('stylesheet', 'Generated stylesheet')
+					.setValue(this.plugin.settings.renderMode || 'inline')
+					.onChange(async (value) => {
+						this.plugin.settings.renderMode = value as RenderMode;
+						await this.plugin.saveSettings();
+						this.plugin.folderManager.applyAllStyles();
+					});
+			});
+
 		// Color Palettes section (moved up - foundation for colors)
 		new Setting(containerEl)
 			.setHeading()
@@ -150,11 +226,39 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName('Gradient interpolation')
+			.setDesc('Color space used to blend between palette colors in gradients. Perceptual spaces avoid the muddy grey midpoints of plain blending.')
+			.addDropdown(dropdown => {
+				dropdown
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.addOption('srgb', 'sRGB')
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.addOption('hsl', 'HSL (shortest hue)')
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.addOption('oklab', 'OKLab')
+					.addOption('oklch', 'OKLCH')
+					.setValue(this.plugin.settings.gradientInterpolation || 'srgb')
+					.onChange(async (value) => {
+						this.plugin.settings.gradientInterpolation = value as InterpolationSpace;
+						await this.plugin.saveSettings();
+						await this.plugin.folderManager.updateSettings(this.plugin.settings);
+						this.displayWithScrollPreservation();
+					});
+			});
+
 		// Palette list
 		this.plugin.settings.colorPalettes.forEach((palette, index) => {
+			const summary = palette.themeColors?.light || palette.themeColors?.dark ? `${palette.colors.length} colors, with theme variants` : `${palette.colors.length} colors`;
+			const visionWarning = this.getPaletteVisionWarning(palette.colors);
 			const paletteSetting = new Setting(containerEl)
 				.setName(palette.name)
-				.setDesc(`${palette.colors.length} colors`);
+				.setDesc(visionWarning
+					? createFragment(fragment => {
+						fragment.appendText(summary);
+						fragment.createDiv({ text: visionWarning, cls: 'iconocolor-palette-warning' });
+					})
+					: summary);
 
 			// Color swatches
 			const colorContainer = paletteSetting.controlEl.createDiv();
@@ -166,6 +270,19 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				swatch.title = color;
 			});
 
+			// Gradient strip, sampled in the selected interpolation space
+			if (palette.colors.length > 1) {
+				const gradientStrip = colorContainer.createDiv();
+				gradientStrip.addClass('palette-gradient-preview');
+				const stops: string[] = [];
+				for (let i = 0; i < GRADIENT_PREVIEW_STOPS; i++) {
+					stops.push(sampleGradientColor(palette.colors, i / (GRADIENT_PREVIEW_STOPS - 1), this.plugin.settings.gradientInterpolation));
+				}
+				setCssProps(gradientStrip, {
+					backgroundImage: `linear-gradient(to right, ${stops.join(', ')})`,
+				});
+			}
+
 			// Edit button
 			paletteSetting.addButton(button => {
 				button
@@ -175,6 +292,15 @@ export class IconocolorSettingTab extends PluginSettingTab {
 					});
 			});
 
+			// Export button
+			paletteSetting.addButton(button => {
+				button
+					.setButtonText('Export')
+					.onClick(() => {
+						new PaletteExportModal(this.app, palette).open();
+					});
+			});
+
 			// Delete button (if not the only palette)
 			if (this.plugin.settings.colorPalettes.length > 1) {
 				paletteSetting.addButton(button => {
@@ -185,6 +311,24 @@ export class IconocolorSettingTab extends PluginSettingTab {
 							if (this.plugin.settings.activePaletteIndex >= this.plugin.settings.colorPalettes.length) {
 								this.plugin.settings.activePaletteIndex = 0;
 							}
+							// Keep per-folder palette references pointing at the same palettes
+							for (const config of Object.values(this.plugin.settings.folderConfigs)) {
+								const autoColor = config.childAutoColor;
+								if (autoColor?.paletteIndex === undefined) continue;
+								if (autoColor.paletteIndex === index) {
+									delete autoColor.paletteIndex; // Fall back to the active palette
+								} else if (autoColor.paletteIndex > index) {
+									autoColor.paletteIndex--;
+								}
+							}
+							const depthPalettes = this.plugin.settings.depthColoring.paletteIndices;
+							depthPalettes.forEach((paletteIndex, level) => {
+								if (paletteIndex === index) {
+									depthPalettes[level] = null; // Fall back to the active palette
+								} else if (paletteIndex !== null && paletteIndex > index) {
+									depthPalettes[level] = paletteIndex - 1;
+								}
+							});
 							await this.plugin.saveSettings();
 							await this.plugin.folderManager.updateSettings(this.plugin.settings);
 							this.displayWithScrollPreservation();
@@ -202,6 +346,27 @@ export class IconocolorSettingTab extends PluginSettingTab {
 					.onClick(async () => {
 						await this.addPalette();
 					});
+			})
+			.addButton(button => {
+				button
+					.setButtonText('Generate palette')
+					.onClick(() => {
+						this.generatePalette();
+					});
+			})
+			.addButton(button => {
+				button
+					.setButtonText('Import palette')
+					.onClick(() => {
+						this.importPalette();
+					});
+			})
+			.addButton(button => {
+				button
+					.setButtonText('From image')
+					.onClick(() => {
+						this.paletteFromImage();
+					});
 			});
 
 		// Automatic base color assignment (uses palettes, so comes after)
@@ -226,13 +391,35 @@ export class IconocolorSettingTab extends PluginSettingTab {
 		if (this.plugin.settings.autoColorEnabled) {
 			new Setting(containerEl)
 				.setName('Color mode')
-				.setDesc('How to apply colors: gradient creates smooth transitions, repeat cycles through palette')
+				.setDesc('How to apply colors: gradient creates smooth transitions, repeat cycles through palette, heatmap places folders on the gradient by activity, whole tree runs one gradient through every folder at every depth, in alphabetical order including collapsed folders')
 				.addDropdown(dropdown => {
 					dropdown.addOption('gradient', 'Gradient');
 					dropdown.addOption('repeat', 'Repeat');
+					dropdown.addOption('heatmap', 'Heatmap');
+					dropdown.addOption('tree', 'Whole tree');
 					dropdown.setValue(this.plugin.settings.autoColorMode || 'gradient');
 					dropdown.onChange(async (value) => {
-						this.plugin.settings.autoColorMode = value as 'gradient' | 'repeat';
+						this.plugin.settings.autoColorMode = value as AutoColorMode;
+						await this.plugin.saveSettings();
+						await this.plugin.folderManager.updateSettings(this.plugin.settings);
+						this.displayWithScrollPreservation();
+					});
+				});
+		}
+
+		// Metric applies to root folders and to folders that auto-color their children in heatmap mode
+		if (this.plugin.settings.autoColorMode === 'heatmap'
+			|| Object.values(this.plugin.settings.folderConfigs).some(config => config.childAutoColor?.mode === 'heatmap')) {
+			new Setting(containerEl)
+				.setName('Heatmap metric')
+				.setDesc('Vault data that places each folder on the palette gradient, compared with its siblings (first color = lowest)')
+				.addDropdown(dropdown => {
+					dropdown.addOption('modified', 'Most recent modification');
+					dropdown.addOption('notes', 'Number of notes');
+					dropdown.addOption('size', 'Total size');
+					dropdown.setValue(this.plugin.settings.heatmapMetric || 'modified');
+					dropdown.onChange(async (value) => {
+						this.plugin.settings.heatmapMetric = value as HeatmapMetric;
 						await this.plugin.saveSettings();
 						await this.plugin.folderManager.updateSettings(this.plugin.settings);
 						this.displayWithScrollPreservation();
@@ -240,11 +427,73 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				});
 		}
 
+		// Assignment applies to root folders and to folders that auto-color their children
+		new Setting(containerEl)
+			.setName('Color assignment')
+			.setDesc('How auto-colored folders are matched to palette colors. Hash and pinned keep existing colors when folders are added.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('index', 'By position (reshuffles)');
+				dropdown.addOption('hash', 'By folder name');
+				dropdown.addOption('pinned', 'Pinned on first use');
+				dropdown.setValue(this.plugin.settings.autoColorAssignment || 'index');
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.autoColorAssignment = value as AutoColorAssignment;
+					await this.plugin.saveSettings();
+					await this.plugin.folderManager.updateSettings(this.plugin.settings);
+					this.displayWithScrollPreservation();
+				});
+			});
+
+		if (this.plugin.settings.autoColorAssignment === 'pinned') {
+			new Setting(containerEl)
+				.setName('Rebalance pinned colors')
+				.setDesc(`Reassign colors from the current palette and folder order (${Object.keys(this.plugin.settings.pinnedAutoColors || {}).length} pinned)`)
+				.addButton(button => {
+					button
+						.setButtonText('Rebalance')
+						.onClick(async () => {
+							await this.plugin.folderManager.rebalanceAutoColors();
+							this.displayWithScrollPreservation();
+						});
+				});
+		}
+
 		// Global transformations section (how colors are derived from base)
 		new Setting(containerEl)
 			.setHeading()
 			.setName('Color transformations');
 
+		new Setting(containerEl)
+			.setName('Theme')
+			.setDesc(`Edit the transformations used in every theme, or override them for light or dark theme only (current theme: ${getCurrentTheme()})`)
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('shared', 'All themes')
+					.addOption('light', 'Light theme overrides')
+					.addOption('dark', 'Dark theme overrides');
+				dropdown.setValue(this.transformationTheme);
+				dropdown.onChange((value) => {
+					this.transformationTheme = value as 'shared' | ThemeVariant;
+					this.displayWithScrollPreservation();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Simulate color vision')
+			.setDesc('Show the previews below and in the folder configuration preview as seen with a color vision deficiency. Only affects previews.')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('none', 'Typical color vision')
+					.addOption('protanopia', 'Protanopia (no red cones)')
+					.addOption('deuteranopia', 'Deuteranopia (no green cones)')
+					.addOption('tritanopia', 'Tritanopia (no blue cones)')
+					.setValue(this.plugin.settings.visionSimulation || 'none')
+					.onChange(async (value) => {
+						this.plugin.settings.visionSimulation = value as VisionDeficiency;
+						await this.plugin.saveSettings();
+						this.displayWithScrollPreservation();
+					});
+			});
 
 		// Add preview for base transformations
 		this.addBaseTransformationPreview(containerEl);
@@ -258,15 +507,24 @@ export class IconocolorSettingTab extends PluginSettingTab {
 		// Text color transformation
 		this.addTransformationSetting(containerEl, 'Text color', 'textColorTransformation');
 
-		// Child base transformation section (how children inherit)
+		// Base color strategy section (inherit from parents or pick by depth)
 		new Setting(containerEl)
 			.setHeading()
-			.setName('Child base transformation');
+			.setName('Base colors');
 
-		// Add preview for child base transformations
-		this.addChildBaseTransformationPreview(containerEl);
-		
-		this.addChildBaseTransformationSettings(containerEl);
+		this.addBaseColorStrategySettings(containerEl);
+
+		if (this.plugin.settings.baseColorStrategy !== 'depth') {
+			// Child base transformation section (how children inherit)
+			new Setting(containerEl)
+				.setHeading()
+				.setName('Child base transformation');
+
+			// Add preview for child base transformations
+			this.addChildBaseTransformationPreview(containerEl);
+			
+			this.addChildBaseTransformationSettings(containerEl);
+		}
 
 		// Default Icons section
 		new Setting(containerEl)
@@ -373,13 +631,39 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			.setHeading()
 			.setName('Configured folders');
 		
+		// The audit scans the whole vault, so it only runs when the review is opened
+		new Setting(containerEl)
+			.setName('Find orphaned configurations')
+			.setDesc('Review configurations that point to folders or files that no longer exist.')
+			.addButton(button => {
+				button
+					.setButtonText('Review')
+					.onClick(() => {
+						new OrphanedConfigsModal(this.app, this.plugin.folderManager, () => {
+							this.displayWithScrollPreservation();
+						}).open();
+					});
+			});
+		
 		if (folders.length > 0) {
 			for (const folderPath of folders) {
 				const config = this.plugin.settings.folderConfigs[folderPath];
+				const isPattern = isPatternKey(folderPath);
+				const exists = isPattern || this.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder;
+				
+				let description = this.getConfigDescription(config);
+				if (isPattern) {
+					description = compilePatternKey(folderPath) ? `Pattern. ${description}` : `Invalid pattern. ${description}`;
+				} else if (!exists) {
+					description = `Folder not found. ${description}`;
+				}
 				
 				const folderSetting = new Setting(containerEl)
 					.setName(folderPath)
-					.setDesc(this.getConfigDescription(config));
+					.setDesc(description);
+				if (!exists) {
+					folderSetting.settingEl.addClass('iconocolor-orphaned-config');
+				}
 
 				folderSetting.addButton((button) => {
 					button
@@ -404,6 +688,46 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				.setDesc('Right-click on a folder in the file explorer to set its icon and colors.');
 		}
 
+		this.addPatternConfigSetting(containerEl);
+
+		// Configured files section
+		const files = Object.keys(this.plugin.settings.fileConfigs || {});
+		
+		if (files.length > 0) {
+			new Setting(containerEl)
+				.setHeading()
+				.setName('Configured files');
+			
+			for (const filePath of files) {
+				const config = this.plugin.settings.fileConfigs[filePath];
+				const exists = this.app.vault.getAbstractFileByPath(filePath) instanceof TFile;
+				
+				const fileSetting = new Setting(containerEl)
+					.setName(filePath)
+					.setDesc(exists ? this.getConfigDescription(config) : `File not found. ${this.getConfigDescription(config)}`);
+				if (!exists) {
+					fileSetting.settingEl.addClass('iconocolor-orphaned-config');
+				}
+
+				fileSetting.addButton((button) => {
+					button
+						.setButtonText('Edit')
+						.onClick(() => {
+							this.editFileConfig(filePath, config);
+						});
+				});
+
+				fileSetting.addButton((button) => {
+					button
+						.setButtonText('Remove')
+						.onClick(async () => {
+							await this.plugin.folderManager.removeFileConfig(filePath);
+							this.displayWithScrollPreservation();
+						});
+				});
+			}
+		}
+
 		// Profile management (at the end - saves/loads all settings)
 		this.addProfileManagementSettings(containerEl);
 
@@ -496,6 +820,51 @@ export class IconocolorSettingTab extends PluginSettingTab {
 		}
 	}
 
+	/**
+	 * Add a row for creating a pattern-keyed folder config
+	 */
+	private addPatternConfigSetting(containerEl: HTMLElement): void {
+		let patternType = GLOB_PREFIX;
+		let patternText = '';
+		
+		new Setting(containerEl)
+			.setName('Add pattern')
+			.setDesc('Style every folder whose path matches a glob (e.g. **/Archive) or regular expression. Exact folder entries take precedence over patterns; when several patterns match, the most specific one wins.')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption(GLOB_PREFIX, 'Glob')
+					.addOption(REGEX_PREFIX, 'Regex');
+				dropdown.setValue(patternType);
+				dropdown.onChange(value => {
+					patternType = value;
+				});
+			})
+			.addText(text => {
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				text.setPlaceholder('Projects/*/Archive');
+				text.onChange(value => {
+					patternText = value.trim();
+				});
+			})
+			.addButton(button => {
+				button
+					.setButtonText('Add')
+					.setCta()
+					.onClick(() => {
+						if (!patternText) {
+							new Notice('Enter a pattern first.');
+							return;
+						}
+						const key = patternType + patternText;
+						if (!compilePatternKey(key)) {
+							new Notice('Invalid pattern.');
+							return;
+						}
+						this.editFolderConfig(key, this.plugin.settings.folderConfigs[key] || {});
+					});
+			});
+	}
+
 	private getConfigDescription(config: FolderConfig): string {
 		const parts: string[] = [];
 		if (config.icon) parts.push('Icon: ✓');
@@ -503,8 +872,16 @@ export class IconocolorSettingTab extends PluginSettingTab {
 		if (config.iconColor) parts.push('Icon color: ✓');
 		if (config.folderColor) parts.push('Folder color: ✓');
 		if (config.textColor) parts.push('Text color: ✓');
-		if (config.applyToSubfolders) parts.push('Applies to subfolders');
+		if (config.applyToSubfolders) {
+			let scope = 'Applies to subfolders';
+			if (config.subfolderDepth !== undefined) scope += ` (${config.subfolderDepth} level${config.subfolderDepth === 1 ? '' : 's'})`;
+			if (config.subfolderExclusions?.length) scope += `, ${config.subfolderExclusions.length} excluded`;
+			parts.push(scope);
+		}
 		if (config.inheritBaseColor === false) parts.push('Children do not inherit');
+		if (config.childTransformation) parts.push('Custom child transformation');
+		if (config.childAutoColor) parts.push('Auto-colors children');
+		if (config.themeColors?.light || config.themeColors?.dark) parts.push('Theme colors: ✓');
 		return parts.length > 0 ? parts.join(', ') : 'No configuration';
 	}
 
@@ -521,7 +898,12 @@ export class IconocolorSettingTab extends PluginSettingTab {
 					...(result.folderColor !== undefined && { folderColor: result.folderColor }),
 					...(result.textColor !== undefined && { textColor: result.textColor }),
 					...(result.applyToSubfolders !== undefined && { applyToSubfolders: result.applyToSubfolders }),
+					...(result.subfolderDepth !== undefined && { subfolderDepth: result.subfolderDepth }),
+					...(result.subfolderExclusions !== undefined && { subfolderExclusions: result.subfolderExclusions }),
 					...(result.inheritBaseColor !== undefined && { inheritBaseColor: result.inheritBaseColor }),
+					...(result.childTransformation !== undefined && { childTransformation: result.childTransformation }),
+					...(result.childAutoColor !== undefined && { childAutoColor: result.childAutoColor }),
+					...(result.themeColors !== undefined && { themeColors: result.themeColors }),
 				};
 				
 				// Explicitly delete properties that existed in original but are now undefined
@@ -538,14 +920,92 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				if (currentConfig.textColor !== undefined && result.textColor === undefined) {
 					configWithDeletions.__deleteTextColor = true;
 				}
+				if (currentConfig.subfolderDepth !== undefined && result.subfolderDepth === undefined) {
+					configWithDeletions.__deleteSubfolderDepth = true;
+				}
+				if (currentConfig.subfolderExclusions !== undefined && result.subfolderExclusions === undefined) {
+					configWithDeletions.__deleteSubfolderExclusions = true;
+				}
+				if (currentConfig.childTransformation !== undefined && result.childTransformation === undefined) {
+					configWithDeletions.__deleteChildTransformation = true;
+				}
+				if (currentConfig.childAutoColor !== undefined && result.childAutoColor === undefined) {
+					configWithDeletions.__deleteChildAutoColor = true;
+				}
+				if (currentConfig.themeColors !== undefined && result.themeColors === undefined) {
+					configWithDeletions.__deleteThemeColors = true;
+				}
 
 				await this.plugin.folderManager.setFolderConfig(folderPath, config);
 				this.displayWithScrollPreservation(); // Refresh
 			},
-			folderPath
+			folderPath,
+			'folder',
+			this.plugin.folderManager
 		).open();
 	}
 
+	private async editFileConfig(filePath: string, currentConfig: FileConfig): Promise<void> {
+		new FolderConfigModal(
+			this.app,
+			currentConfig,
+			this.plugin.settings,
+			async (result) => {
+				const config: FileConfig = {
+					...(result.icon !== undefined && { icon: result.icon }),
+					...(result.baseColor !== undefined && { baseColor: result.baseColor }),
+					...(result.iconColor !== undefined && { iconColor: result.iconColor }),
+					...(result.folderColor !== undefined && { folderColor: result.folderColor }),
+					...(result.textColor !== undefined && { textColor: result.textColor }),
+					...(result.themeColors !== undefined && { themeColors: result.themeColors }),
+				};
+				
+				// Explicitly delete properties that existed in original but are now undefined
+				const configWithDeletions = config as FolderConfigWithDeletions;
+				if (currentConfig.baseColor !== undefined && result.baseColor === undefined) {
+					configWithDeletions.__deleteBaseColor = true;
+				}
+				if (currentConfig.iconColor !== undefined && result.iconColor === undefined) {
+					configWithDeletions.__deleteIconColor = true;
+				}
+				if (currentConfig.folderColor !== undefined && result.folderColor === undefined) {
+					configWithDeletions.__deleteFolderColor = true;
+				}
+				if (currentConfig.textColor !== undefined && result.textColor === undefined) {
+					configWithDeletions.__deleteTextColor = true;
+				}
+				if (currentConfig.themeColors !== undefined && result.themeColors === undefined) {
+					configWithDeletions.__deleteThemeColors = true;
+				}
+
+				await this.plugin.folderManager.setFileConfig(filePath, config);
+				this.displayWithScrollPreservation(); // Refresh
+			},
+			filePath,
+			'file',
+			this.plugin.folderManager
+		).open();
+	}
+
+	/**
+	 * Describe neighboring root folder colors that look alike with a color vision deficiency
+	 * Checks the gradient colors the palette produces for the vault's root folders
+	 */
+	private getPaletteVisionWarning(colors: string[]): string | null {
+		const rootFolderCount = this.app.vault.getRoot().children.filter(child => child instanceof TFolder).length;
+		const gradient = generateGradientColors(colors, Math.max(rootFolderCount, colors.length), this.plugin.settings.gradientInterpolation);
+
+		const problems: string[] = [];
+		for (const deficiency of ['protanopia', 'deuteranopia', 'tritanopia'] as VisionDeficiency[]) {
+			const pairs = findIndistinctNeighbors(gradient, deficiency);
+			if (pairs.length > 0) {
+				const pairList = pairs.map(pair => `${pair.index + 1}–${pair.index + 2}`).join(', ');
+				problems.push(`${deficiency} (neighbors ${pairList})`);
+			}
+		}
+		return problems.length > 0 ? `Hard to tell apart with ${problems.join('; ')}` : null;
+	}
+
 	private async addPalette(): Promise<void> {
 		const newPalette: ColorPalette = {
 			name: `Palette ${this.plugin.settings.colorPalettes.length + 1}`,
@@ -556,6 +1016,44 @@ export class IconocolorSettingTab extends PluginSettingTab {
 		this.displayWithScrollPreservation();
 	}
 
+	private generatePalette(): void {
+		new PaletteGeneratorModal(
+			this.app,
+			`Palette ${this.plugin.settings.colorPalettes.length + 1}`,
+			async (palette) => {
+				this.plugin.settings.colorPalettes.push(palette);
+				await this.plugin.saveSettings();
+				this.displayWithScrollPreservation();
+			}
+		).open();
+	}
+
+	private importPalette(): void {
+		new PaletteImportModal(
+			this.app,
+			async (palette) => {
+				this.plugin.settings.colorPalettes.push(palette);
+				await this.plugin.saveSettings();
+				this.displayWithScrollPreservation();
+			}
+		).open();
+	}
+
+	private paletteFromImage(): void {
+		new PaletteImageModal(
+			this.app,
+			async (palette, makeActive) => {
+				this.plugin.settings.colorPalettes.push(palette);
+				if (makeActive) {
+					this.plugin.settings.activePaletteIndex = this.plugin.settings.colorPalettes.length - 1;
+				}
+				await this.plugin.saveSettings();
+				await this.plugin.folderManager.updateSettings(this.plugin.settings);
+				this.displayWithScrollPreservation();
+			}
+		).open();
+	}
+
 	private editPalette(index: number): void {
 		const palette = this.plugin.settings.colorPalettes[index];
 		
@@ -566,6 +1064,12 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			constructor(app: App, palette: ColorPalette, onSubmit: (palette: ColorPalette) => void) {
 				super(app);
 				this.palette = { ...palette, colors: [...palette.colors] };
+				if (palette.themeColors) {
+					this.palette.themeColors = {
+						...(palette.themeColors.light && { light: [...palette.themeColors.light] }),
+						...(palette.themeColors.dark && { dark: [...palette.themeColors.dark] }),
+					};
+				}
 				this.onSubmit = onSubmit;
 			}
 
@@ -590,25 +1094,77 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				new Setting(contentEl)
 					.setHeading()
 					.setName('Colors');
-				const colorsContainer = contentEl.createDiv();
+				this.renderColorList(contentEl, this.palette.colors);
+
+				// Theme variants: replacement colors used only in light or dark theme
+				for (const theme of ['light', 'dark'] as ThemeVariant[]) {
+					const themeContainer = contentEl.createDiv();
+					const renderTheme = () => {
+						themeContainer.empty();
+						const variant = this.palette.themeColors?.[theme];
+						new Setting(themeContainer)
+							.setName(theme === 'light' ? 'Separate light theme colors' : 'Separate dark theme colors')
+							.setDesc('Use different colors in this theme (same order as above)')
+							.addToggle(toggle => {
+								toggle
+									.setValue(variant !== undefined)
+									.onChange(value => {
+										const themeColors = this.palette.themeColors || {};
+										if (value) {
+											themeColors[theme] = [...this.palette.colors];
+										} else {
+											delete themeColors[theme];
+										}
+										this.palette.themeColors = (themeColors.light || themeColors.dark) ? themeColors : undefined;
+										renderTheme();
+									});
+							});
+						if (variant) {
+							this.renderColorList(themeContainer, variant);
+						}
+					};
+					renderTheme();
+				}
+
+				// Buttons
+				new Setting(contentEl)
+					.addButton(button => {
+						button.setButtonText('Cancel');
+						button.onClick(() => this.close());
+					})
+					.addButton(button => {
+						button.setButtonText('Save');
+						button.setCta();
+						button.onClick(() => {
+							this.onSubmit(this.palette);
+							this.close();
+						});
+					});
+			}
+
+			/**
+			 * Render an editable list of colors with add and remove buttons
+			 */
+			renderColorList(container: HTMLElement, colors: string[]): void {
+				const colorsContainer = container.createDiv();
 				colorsContainer.addClass('palette-editor-colors');
 
 				const renderColors = () => {
 					colorsContainer.empty();
-					this.palette.colors.forEach((color, i) => {
+					colors.forEach((color, i) => {
 						new Setting(colorsContainer)
 							.setName(`Color ${i + 1}`)
 							.addText(text => {
 								text.setValue(color);
 								text.onChange(value => {
-									this.palette.colors[i] = value;
+									colors[i] = value;
 									renderColors();
 								});
 							})
 							.addButton(button => {
 								button.setButtonText('Remove');
 								button.onClick(() => {
-									this.palette.colors.splice(i, 1);
+									colors.splice(i, 1);
 									renderColors();
 								});
 							});
@@ -618,29 +1174,14 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				renderColors();
 
 				// Add color button
-				new Setting(contentEl)
+				new Setting(container)
 					.addButton(button => {
 						button.setButtonText('Add color');
 						button.onClick(() => {
-							this.palette.colors.push('#000000');
+							colors.push('#000000');
 							renderColors();
 						});
 					});
-
-				// Buttons
-				new Setting(contentEl)
-					.addButton(button => {
-						button.setButtonText('Cancel');
-						button.onClick(() => this.close());
-					})
-					.addButton(button => {
-						button.setButtonText('Save');
-						button.setCta();
-						button.onClick(() => {
-							this.onSubmit(this.palette);
-							this.close();
-						});
-					});
 			}
 
 			onClose(): void {
@@ -816,9 +1357,11 @@ export class IconocolorSettingTab extends PluginSettingTab {
 	 * Add preview showing how base color transforms into element colors
 	 */
 	private addBaseTransformationPreview(containerEl: HTMLElement): void {
-		// Sample base color (use first color from active palette)
+		// Sample base color (use first color from active palette, in the edited theme)
 		const activePalette = this.plugin.settings.colorPalettes[this.plugin.settings.activePaletteIndex || 0];
-		const sampleBaseColor = activePalette?.colors[0] || '#4ECDC4';
+		const theme = this.transformationTheme;
+		const paletteColors = activePalette ? (theme === 'shared' ? activePalette.colors : getThemePaletteColors(activePalette, theme)) : [];
+		const sampleBaseColor = paletteColors[0] || '#4ECDC4';
 		
 		const previewSetting = new Setting(containerEl)
 			.setName('Preview: base color → element colors')
@@ -854,7 +1397,7 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			height: '36px',
 			borderRadius: '4px',
 			border: '1px solid var(--background-modifier-border)',
-			backgroundColor: sampleBaseColor,
+			backgroundColor: simulateColorVision(sampleBaseColor, this.plugin.settings.visionSimulation),
 			boxShadow: '0 1px 3px rgba(0,0,0,0.12)',
 		});
 		
@@ -890,16 +1433,17 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			transformedContainer.empty();
 			
 			// Icon color
-			const iconColor = this.applyTransformation(sampleBaseColor, this.plugin.settings.iconColorTransformation);
+			const iconColor = this.applyTransformation(sampleBaseColor, this.getPreviewTransformation('iconColorTransformation'));
 			this.addColorPreview(transformedContainer, 'Icon', iconColor);
 			
 			// Folder color
-			const folderColor = this.applyTransformation(sampleBaseColor, this.plugin.settings.folderColorTransformation);
+			const folderColor = this.applyTransformation(sampleBaseColor, this.getPreviewTransformation('folderColorTransformation'));
 			this.addColorPreview(transformedContainer, 'Background', folderColor);
 			
-			// Text color
-			const textColor = this.applyTransformation(sampleBaseColor, this.plugin.settings.textColorTransformation);
-			this.addColorPreview(transformedContainer, 'Text', textColor);
+			// Text color, with its contrast against the background blended over the theme background
+			const background = blendOverBackground(folderColor, getThemeBackgroundColor(theme === 'shared' ? undefined : theme), this.plugin.settings.folderColorOpacity);
+			const textColor = this.applyTransformation(sampleBaseColor, this.getPreviewTransformation('textColorTransformation'), background);
+			this.addColorPreview(transformedContainer, 'Text', textColor, `${getContrastRatio(textColor, background).toFixed(2)}:1`);
 		};
 		
 		updatePreview();
@@ -914,7 +1458,7 @@ export class IconocolorSettingTab extends PluginSettingTab {
 	/**
 	 * Add a color preview box
 	 */
-	private addColorPreview(container: HTMLElement, label: string, color: string): void {
+	private addColorPreview(container: HTMLElement, label: string, color: string, note?: string): void {
 		const preview = container.createDiv();
 		setCssProps(preview, {
 			display: 'flex',
@@ -929,7 +1473,7 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			height: '36px',
 			borderRadius: '4px',
 			border: '1px solid var(--background-modifier-border)',
-			backgroundColor: color,
+			backgroundColor: simulateColorVision(color, this.plugin.settings.visionSimulation),
 			boxShadow: '0 1px 3px rgba(0,0,0,0.12)',
 			display: 'flex',
 			alignItems: 'center',
@@ -949,6 +1493,15 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			fontFamily: 'var(--font-monospace)',
 			color: 'var(--text-faint)',
 		});
+		
+		if (note) {
+			const noteEl = preview.createEl('span', { text: note });
+			setCssProps(noteEl, {
+				fontSize: '8px',
+				fontFamily: 'var(--font-monospace)',
+				color: 'var(--text-muted)',
+			});
+		}
 	}
 	
 	/**
@@ -969,19 +1522,36 @@ export class IconocolorSettingTab extends PluginSettingTab {
 	}
 	
 	/**
-	 * Apply transformation to a color
+	 * Get the transformation in effect for the theme being edited
 	 */
-	private applyTransformation(baseColor: string, transformation: ColorTransformation): string {
-		if (transformation.type === 'hsl') {
-			return applyHSLTransformation(baseColor, {
-				hue: transformation.hue,
-				saturation: transformation.saturation,
-				lightness: transformation.lightness,
-			});
-		} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
-			return applyLightnessTransformation(baseColor, transformation.adjustment);
+	private getPreviewTransformation(settingKey: keyof ThemeTransformations): ColorTransformation {
+		if (this.transformationTheme === 'shared') {
+			return this.plugin.settings[settingKey];
+		}
+		return getThemeTransformation(this.plugin.settings, settingKey, this.transformationTheme);
+	}
+
+	/**
+	 * Get (creating if needed) the transformation overrides for one theme
+	 */
+	private getThemeTransformationOverrides(theme: ThemeVariant): ThemeTransformations {
+		if (!this.plugin.settings.themeTransformations) {
+			this.plugin.settings.themeTransformations = {};
 		}
-		return baseColor; // 'none' transformation
+		let overrides = this.plugin.settings.themeTransformations[theme];
+		if (!overrides) {
+			overrides = {};
+			this.plugin.settings.themeTransformations[theme] = overrides;
+		}
+		return overrides;
+	}
+
+	/**
+	 * Apply transformation to a color
+	 * Contrast transformations are measured against the given background (theme background by default)
+	 */
+	private applyTransformation(baseColor: string, transformation: ColorTransformation, background?: string): string {
+		return applyColorTransformation(baseColor, transformation, background ?? getThemeBackgroundColor(), this.plugin.settings.gradientInterpolation);
 	}
 	
 	/**
@@ -1026,7 +1596,7 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			height: '36px',
 			borderRadius: '4px',
 			border: '1px solid var(--background-modifier-border)',
-			backgroundColor: parentColor,
+			backgroundColor: simulateColorVision(parentColor, this.plugin.settings.visionSimulation),
 			boxShadow: '0 1px 3px rgba(0,0,0,0.12)',
 		});
 		
@@ -1063,8 +1633,8 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			
 			const transformation = this.plugin.settings.childBaseTransformation;
 			
-			// Skip if no inheritance
-			if (transformation.type === 'none') {
+			// Skip if no inheritance (a 'none' transformation can still have per-depth entries)
+			if (transformation.type === 'none' && !transformation.depthTransformations?.length) {
 				return;
 			}
 			
@@ -1074,16 +1644,9 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			
 			for (let i = 0; i < 3; i++) {
 				// Each child applies transformation to previous child's result (cumulative)
-				let childBaseColor = currentColor;
-				
-				if (transformation.type === 'hsl') {
-					childBaseColor = applyHSLTransformation(childBaseColor, {
-						hue: transformation.hue || 0,
-						saturation: transformation.saturation || 0,
-						lightness: transformation.lightness || 0,
-					});
-				} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
-					childBaseColor = applyLightnessTransformation(childBaseColor, transformation.adjustment);
+				const childBaseColor = deriveChildBaseColor(currentColor, transformation, i + 1, getThemeBackgroundColor(), this.plugin.settings.gradientInterpolation);
+				if (!childBaseColor) {
+					break;
 				}
 				
 				// Update current for next iteration (cumulative effect)
@@ -1103,7 +1666,7 @@ export class IconocolorSettingTab extends PluginSettingTab {
 					height: '36px',
 					borderRadius: '4px',
 					border: '1px solid var(--background-modifier-border)',
-					backgroundColor: childBaseColor,
+					backgroundColor: simulateColorVision(childBaseColor, this.plugin.settings.visionSimulation),
 					boxShadow: '0 1px 3px rgba(0,0,0,0.12)',
 				});
 				
@@ -1134,34 +1697,78 @@ export class IconocolorSettingTab extends PluginSettingTab {
 	/**
 	 * Add transformation setting UI
 	 */
-	private addTransformationSetting(containerEl: HTMLElement, label: string, settingKey: 'iconColorTransformation' | 'folderColorTransformation' | 'textColorTransformation'): void {
-		const current = this.plugin.settings[settingKey] || { type: 'none' };
+	private addTransformationSetting(containerEl: HTMLElement, label: string, settingKey: keyof ThemeTransformations): void {
+		// Shared transformations live on the settings object, theme overrides in themeTransformations
+		const theme = this.transformationTheme;
+		const target: ThemeTransformations = theme === 'shared' ? this.plugin.settings : this.getThemeTransformationOverrides(theme);
+		const inherits = theme !== 'shared' && target[settingKey] === undefined;
+		const current = target[settingKey] || { type: 'none' };
 		
 		new Setting(containerEl)
 			.setName(`${label} transformation`)
-			.setDesc('How this color is derived from base color')
+			.setDesc(theme === 'shared' ? 'How this color is derived from base color' : `How this color is derived from base color in ${theme} theme`)
 			.addDropdown(dropdown => {
+				if (theme !== 'shared') {
+					dropdown.addOption('inherit', 'Same as all themes');
+				}
 				dropdown
 					.addOption('none', 'None (same as base)')
 					.addOption('lightness', 'Lightness adjustment')
 					// eslint-disable-next-line obsidianmd/ui/sentence-case
-					.addOption('hsl', 'HSL transformation');
-				dropdown.setValue(current.type);
+					.addOption('hsl', 'HSL transformation')
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.addOption('oklch', 'OKLCH transformation (perceptual)');
+				// Contrast is measured against the folder background, so it only makes sense for text
+				if (settingKey === 'textColorTransformation') {
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					dropdown.addOption('contrast', 'Contrast-safe (WCAG)');
+				}
+				dropdown
+					.addOption('mix', 'Mix with color')
+					.addOption('tint', 'Tint (toward white)')
+					.addOption('shade', 'Shade (toward black)')
+					.addOption('complement', 'Complementary hue')
+					.addOption('desaturate', 'Desaturate')
+					.addOption('alpha', 'Transparency')
+					.addOption('pipeline', 'Multiple steps');
+				dropdown.setValue(inherits ? 'inherit' : current.type);
 				dropdown.onChange(async (value) => {
-					if (value === 'none') {
-						this.plugin.settings[settingKey] = { type: 'none' };
+					if (value === 'inherit') {
+						delete target[settingKey];
+					} else if (value === 'none') {
+						target[settingKey] = { type: 'none' };
 					} else if (value === 'lightness') {
-						this.plugin.settings[settingKey] = {
+						target[settingKey] = {
 							type: 'lightness',
 							adjustment: (current.type === 'lightness' && current.adjustment !== undefined) ? current.adjustment : 0
 						};
 					} else if (value === 'hsl') {
-						this.plugin.settings[settingKey] = {
+						target[settingKey] = {
 							type: 'hsl',
 							hue: (current.type === 'hsl' && current.hue !== undefined) ? current.hue : 0,
 							saturation: (current.type === 'hsl' && current.saturation !== undefined) ? current.saturation : 0,
 							lightness: (current.type === 'hsl' && current.lightness !== undefined) ? current.lightness : 0
 						};
+					} else if (value === 'oklch') {
+						target[settingKey] = {
+							type: 'oklch',
+							lightness: (current.type === 'oklch' && current.lightness !== undefined) ? current.lightness : 0,
+							chroma: (current.type === 'oklch' && current.chroma !== undefined) ? current.chroma : 0,
+							hue: (current.type === 'oklch' && current.hue !== undefined) ? current.hue : 0
+						};
+					} else if (value === 'contrast') {
+						target[settingKey] = {
+							type: 'contrast',
+							ratio: current.type === 'contrast' ? current.ratio : 4.5
+						};
+					} else if (value === 'pipeline') {
+						// The current single transformation becomes the first step
+						target[settingKey] = {
+							type: 'pipeline',
+							steps: current.type === 'none' || current.type === 'pipeline' ? [] : [{ ...current }]
+						};
+					} else {
+						target[settingKey] = current.type === value ? current : this.createTransformationStep(value as TransformationStep['type']);
 					}
 					await this.plugin.saveSettings();
 					await this.plugin.folderManager.updateSettings(this.plugin.settings);
@@ -1170,8 +1777,34 @@ export class IconocolorSettingTab extends PluginSettingTab {
 				});
 			});
 
-		// Show additional inputs based on type
-		if (current.type === 'lightness') {
+		// Show additional inputs based on type (nothing to edit while a theme inherits)
+		if (inherits) {
+			return;
+		}
+		if (current.type === 'pipeline') {
+			this.addTransformationStepsEditor(containerEl, label, current.steps, settingKey === 'textColorTransformation');
+		} else if (current.type === 'contrast') {
+			new Setting(containerEl)
+				.setName(`${label} minimum contrast ratio`)
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Lightness is adjusted until text reaches this ratio against the folder background (1 to 21). 4.5 meets AA, 7 meets AAA, 3 is enough for large text.')
+				.addText(text => {
+					text.setPlaceholder('4.5')
+						.setValue(String(current.ratio))
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? 4.5 : parseFloat(value);
+							if (!isNaN(numValue)) {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'contrast') {
+									transformation.ratio = Math.max(1, Math.min(21, numValue));
+								}
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							}
+						});
+				});
+		} else if (current.type === 'lightness') {
 			new Setting(containerEl)
 				.setName(`${label} lightness adjustment`)
 				.setDesc('Percentage: positive = lighter, negative = darker (-100 to 100)')
@@ -1181,8 +1814,8 @@ export class IconocolorSettingTab extends PluginSettingTab {
 						.onChange(async (value) => {
 							const numValue = value.trim() === '' ? 0 : parseFloat(value);
 							if (!isNaN(numValue)) {
-								const transformation = this.plugin.settings[settingKey];
-								if (transformation.type === 'lightness') {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'lightness') {
 									transformation.adjustment = Math.max(-100, Math.min(100, numValue));
 								}
 								await this.plugin.saveSettings();
@@ -1201,8 +1834,8 @@ export class IconocolorSettingTab extends PluginSettingTab {
 						.onChange(async (value) => {
 							const numValue = value.trim() === '' ? 0 : parseFloat(value);
 							if (!isNaN(numValue)) {
-								const transformation = this.plugin.settings[settingKey];
-								if (transformation.type === 'hsl') {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'hsl') {
 									transformation.hue = Math.max(-180, Math.min(180, numValue));
 								}
 								await this.plugin.saveSettings();
@@ -1221,8 +1854,8 @@ export class IconocolorSettingTab extends PluginSettingTab {
 						.onChange(async (value) => {
 							const numValue = value.trim() === '' ? 0 : parseFloat(value);
 							if (!isNaN(numValue)) {
-								const transformation = this.plugin.settings[settingKey];
-								if (transformation.type === 'hsl') {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'hsl') {
 									transformation.saturation = Math.max(-100, Math.min(100, numValue));
 								}
 								await this.plugin.saveSettings();
@@ -1241,8 +1874,28 @@ export class IconocolorSettingTab extends PluginSettingTab {
 						.onChange(async (value) => {
 							const numValue = value.trim() === '' ? 0 : parseFloat(value);
 							if (!isNaN(numValue)) {
-								const transformation = this.plugin.settings[settingKey];
-								if (transformation.type === 'hsl') {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'hsl') {
+									transformation.lightness = Math.max(-100, Math.min(100, numValue));
+								}
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							}
+						});
+				});
+		} else if (current.type === 'oklch') {
+			new Setting(containerEl)
+				.setName(`${label} lightness adjustment`)
+				.setDesc('Perceptual lightness adjustment in percentage points (-100 to 100)')
+				.addText(text => {
+					text.setPlaceholder('0')
+						.setValue(current.lightness !== undefined ? String(current.lightness) : '0')
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? 0 : parseFloat(value);
+							if (!isNaN(numValue)) {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'oklch') {
 									transformation.lightness = Math.max(-100, Math.min(100, numValue));
 								}
 								await this.plugin.saveSettings();
@@ -1251,7 +1904,279 @@ export class IconocolorSettingTab extends PluginSettingTab {
 							}
 						});
 				});
+
+			new Setting(containerEl)
+				.setName(`${label} chroma adjustment`)
+				.setDesc('Chroma adjustment in percentage, 100% = chroma 0.4 (-100 to 100)')
+				.addText(text => {
+					text.setPlaceholder('0')
+						.setValue(current.chroma !== undefined ? String(current.chroma) : '0')
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? 0 : parseFloat(value);
+							if (!isNaN(numValue)) {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'oklch') {
+									transformation.chroma = Math.max(-100, Math.min(100, numValue));
+								}
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							}
+						});
+				});
+
+			new Setting(containerEl)
+				.setName(`${label} hue shift`)
+				.setDesc('Hue shift in degrees (-180 to 180)')
+				.addText(text => {
+					text.setPlaceholder('0')
+						.setValue(current.hue !== undefined ? String(current.hue) : '0')
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? 0 : parseFloat(value);
+							if (!isNaN(numValue)) {
+								const transformation = target[settingKey];
+								if (transformation?.type === 'oklch') {
+									transformation.hue = Math.max(-180, Math.min(180, numValue));
+								}
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							}
+						});
+				});
+		} else if (current.type !== 'none') {
+			this.addStepFieldSettings(containerEl, current, `${label} `, async () => {
+				await this.plugin.saveSettings();
+				await this.plugin.folderManager.updateSettings(this.plugin.settings);
+				this.updateAllPreviews();
+			});
+		}
+	}
+
+	/**
+	 * Add an editor for a list of transformation steps (pipeline steps or per-depth entries)
+	 * Steps can be added, removed and reordered; previews update as values change
+	 */
+	private addTransformationStepsEditor(containerEl: HTMLElement, label: string, steps: TransformationStep[], allowContrast: boolean, itemLabel = 'step', description?: string): void {
+		const save = async (rerender: boolean) => {
+			await this.plugin.saveSettings();
+			await this.plugin.folderManager.updateSettings(this.plugin.settings);
+			this.updateAllPreviews();
+			if (rerender) {
+				this.displayWithScrollPreservation();
+			}
+		};
+
+		steps.forEach((step, index) => {
+			new Setting(containerEl)
+				.setName(`${label} ${itemLabel} ${index + 1}`)
+				.addDropdown(dropdown => {
+					for (const [type, name] of Object.entries(STEP_TYPE_NAMES)) {
+						// Contrast needs a background to measure against, so it only applies to text
+						if (type === 'contrast' && !allowContrast) continue;
+						dropdown.addOption(type, name);
+					}
+					dropdown.setValue(step.type);
+					dropdown.onChange(async (value) => {
+						steps[index] = this.createTransformationStep(value as TransformationStep['type']);
+						await save(true);
+					});
+				})
+				.addExtraButton(button => {
+					button
+						.setIcon('arrow-up')
+						.setTooltip('Move up')
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							if (index === 0) return;
+							[steps[index - 1], steps[index]] = [steps[index], steps[index - 1]];
+							await save(true);
+						});
+				})
+				.addExtraButton(button => {
+					button
+						.setIcon('arrow-down')
+						.setTooltip('Move down')
+						.setDisabled(index === steps.length - 1)
+						.onClick(async () => {
+							if (index === steps.length - 1) return;
+							[steps[index], steps[index + 1]] = [steps[index + 1], steps[index]];
+							await save(true);
+						});
+				})
+				.addExtraButton(button => {
+					button
+						.setIcon('trash')
+						.setTooltip(`Remove ${itemLabel}`)
+						.onClick(async () => {
+							steps.splice(index, 1);
+							await save(true);
+						});
+				});
+
+			this.addStepFieldSettings(containerEl, step, '', () => save(false))
+				.forEach(setting => setting.setClass('iconocolor-transformation-step-field'));
+		});
+
+		new Setting(containerEl)
+			.setDesc(description ?? (steps.length === 0 ? 'No steps yet, so the color stays the same as base' : 'Steps apply from top to bottom, each to the previous result'))
+			.addButton(button => {
+				button
+					.setButtonText(`Add ${itemLabel}`)
+					.onClick(async () => {
+						steps.push(this.createTransformationStep('lightness'));
+						await save(true);
+					});
+			});
+	}
+
+	/**
+	 * Add the inputs for one transformation step's values
+	 * Names get the prefix (e.g. "Icon color ") when the step stands alone; returns the settings added
+	 */
+	private addStepFieldSettings(containerEl: HTMLElement, step: TransformationStep, prefix: string, onChange: () => Promise<void>): Setting[] {
+		const settings: Setting[] = [];
+		const withPrefix = (name: string) => prefix ? `${prefix}${name.charAt(0).toLowerCase()}${name.slice(1)}` : name;
+
+		if (step.type === 'mix') {
+			settings.push(new Setting(containerEl)
+				.setName(withPrefix('Mix color'))
+				.addColorPicker(picker => {
+					picker
+						.setValue(step.color)
+						.onChange(async (value) => {
+							step.color = value;
+							await onChange();
+						});
+				}));
+		}
+
+		const values = step as Partial<Record<StepFieldKey, number>>;
+		for (const field of STEP_FIELDS[step.type]) {
+			settings.push(new Setting(containerEl)
+				.setName(withPrefix(field.name))
+				.addText(text => {
+					text.setPlaceholder(String(field.fallback))
+						.setValue(values[field.key] !== undefined ? String(values[field.key]) : String(field.fallback))
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? field.fallback : parseFloat(value);
+							if (!isNaN(numValue)) {
+								values[field.key] = Math.max(field.min, Math.min(field.max, numValue));
+								await onChange();
+							}
+						});
+				}));
+		}
+		return settings;
+	}
+
+	/**
+	 * Create a pipeline step with neutral values
+	 */
+	private createTransformationStep(type: TransformationStep['type']): TransformationStep {
+		if (type === 'hsl') {
+			return { type: 'hsl', hue: 0, saturation: 0, lightness: 0 };
+		} else if (type === 'oklch') {
+			return { type: 'oklch', lightness: 0, chroma: 0, hue: 0 };
+		} else if (type === 'contrast') {
+			return { type: 'contrast', ratio: 4.5 };
+		} else if (type === 'mix') {
+			return { type: 'mix', color: '#ffffff', amount: 30 };
+		} else if (type === 'tint' || type === 'shade') {
+			return { type, amount: 30 };
+		} else if (type === 'complement') {
+			return { type: 'complement' };
+		} else if (type === 'desaturate') {
+			return { type: 'desaturate', amount: 100 };
+		} else if (type === 'alpha') {
+			return { type: 'alpha', alpha: 50 };
+		}
+		return { type: 'lightness', adjustment: 0 };
+	}
+
+	/**
+	 * Add base color strategy settings, with the palette list per nesting level for the depth strategy
+	 */
+	private addBaseColorStrategySettings(containerEl: HTMLElement): void {
+		const save = async (rerender: boolean) => {
+			await this.plugin.saveSettings();
+			await this.plugin.folderManager.updateSettings(this.plugin.settings);
+			this.updateAllPreviews();
+			if (rerender) {
+				this.displayWithScrollPreservation();
+			}
+		};
+
+		new Setting(containerEl)
+			.setName('Base color strategy')
+			.setDesc('Where folders without their own base color get one: from their parent through the child base transformation, or from a palette per nesting level')
+			.addDropdown(dropdown => {
+				dropdown.addOption('inherit', 'Inherit from parent');
+				dropdown.addOption('depth', 'By depth');
+				dropdown.setValue(this.plugin.settings.baseColorStrategy || 'inherit');
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.baseColorStrategy = value as BaseColorStrategy;
+					await save(true);
+				});
+			});
+
+		if (this.plugin.settings.baseColorStrategy !== 'depth') {
+			return;
 		}
+
+		const depthColoring = this.plugin.settings.depthColoring;
+		new Setting(containerEl)
+			.setName('Color mode')
+			.setDesc('How each level\'s palette is spread across the folders at that level, in alphabetical order including collapsed folders')
+			.addDropdown(dropdown => {
+				dropdown.addOption('gradient', 'Gradient');
+				dropdown.addOption('repeat', 'Repeat');
+				dropdown.setValue(depthColoring.mode);
+				dropdown.onChange(async (value) => {
+					depthColoring.mode = value as DepthColoring['mode'];
+					await save(false);
+				});
+			});
+
+		depthColoring.paletteIndices.forEach((paletteIndex, level) => {
+			new Setting(containerEl)
+				.setName(`Level ${level + 1} palette`)
+				.setDesc(level === 0 ? 'Top-level folders' : `Folders ${level} level${level === 1 ? '' : 's'} below the top`)
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Active palette');
+					this.plugin.settings.colorPalettes.forEach((palette, index) => {
+						dropdown.addOption(String(index), palette.name);
+					});
+					dropdown.setValue(paletteIndex !== null ? String(paletteIndex) : '');
+					dropdown.onChange(async (value) => {
+						depthColoring.paletteIndices[level] = value === '' ? null : parseInt(value, 10);
+						await save(false);
+					});
+				})
+				.addExtraButton(button => {
+					button
+						.setIcon('trash')
+						.setTooltip('Remove level')
+						.onClick(async () => {
+							depthColoring.paletteIndices.splice(level, 1);
+							await save(true);
+						});
+				});
+		});
+
+		new Setting(containerEl)
+			.setDesc(depthColoring.paletteIndices.length === 0
+				? 'No levels yet, so every level uses the active palette'
+				: 'Deeper levels than listed use the last palette')
+			.addButton(button => {
+				button
+					.setButtonText('Add level')
+					.onClick(async () => {
+						const indices = depthColoring.paletteIndices;
+						indices.push(indices.length > 0 ? indices[indices.length - 1] : null);
+						await save(true);
+					});
+			});
 	}
 
 	/**
@@ -1268,7 +2193,10 @@ export class IconocolorSettingTab extends PluginSettingTab {
 					.addOption('none', 'None (no inheritance)')
 					.addOption('lightness', 'Lightness adjustment')
 					// eslint-disable-next-line obsidianmd/ui/sentence-case
-					.addOption('hsl', 'HSL transformation');
+					.addOption('hsl', 'HSL transformation')
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.addOption('oklch', 'OKLCH transformation (perceptual)')
+					.addOption('pipeline', 'Multiple steps');
 				dropdown.setValue(current.type || 'lightness');
 				dropdown.onChange(async (value) => {
 					if (value === 'none') {
@@ -1291,6 +2219,40 @@ export class IconocolorSettingTab extends PluginSettingTab {
 							useGradient: current.useGradient !== undefined ? current.useGradient : false,
 							backgroundOpacity: current.backgroundOpacity !== undefined ? current.backgroundOpacity : 100
 						};
+					} else if (value === 'oklch') {
+						this.plugin.settings.childBaseTransformation = {
+							type: 'oklch',
+							lightness: (current.type === 'oklch' && current.lightness !== undefined) ? current.lightness : 5,
+							chroma: (current.type === 'oklch' && current.chroma !== undefined) ? current.chroma : 0,
+							hue: (current.type === 'oklch' && current.hue !== undefined) ? current.hue : 0,
+							useGradient: current.useGradient !== undefined ? current.useGradient : false,
+							backgroundOpacity: current.backgroundOpacity !== undefined ? current.backgroundOpacity : 100
+						};
+					} else if (value === 'pipeline') {
+						// The current transformation becomes the first step
+						const firstStep: TransformationStep | null = current.type === 'lightness'
+							? { type: 'lightness', adjustment: current.adjustment ?? 10 }
+							: current.type === 'hsl'
+								? { type: 'hsl', hue: current.hue ?? 0, saturation: current.saturation ?? 0, lightness: current.lightness ?? 0 }
+								: current.type === 'oklch'
+									? { type: 'oklch', lightness: current.lightness ?? 0, chroma: current.chroma ?? 0, hue: current.hue ?? 0 }
+									: null;
+						this.plugin.settings.childBaseTransformation = {
+							type: 'pipeline',
+							steps: current.type === 'pipeline' ? current.steps : firstStep ? [firstStep] : [],
+							useGradient: current.useGradient !== undefined ? current.useGradient : false,
+							backgroundOpacity: current.backgroundOpacity !== undefined ? current.backgroundOpacity : 100
+						};
+					}
+					// Depth tables and clamps don't depend on the type, so they carry over
+					// (the depth table also applies with 'none', which then only colors the listed levels)
+					const updated = this.plugin.settings.childBaseTransformation;
+					updated.depthTransformations = current.depthTransformations;
+					if (updated.type !== 'none') {
+						updated.minLightness = current.minLightness;
+						updated.maxLightness = current.maxLightness;
+						updated.minSaturation = current.minSaturation;
+						updated.maxSaturation = current.maxSaturation;
 					}
 					await this.plugin.saveSettings();
 					await this.plugin.folderManager.updateSettings(this.plugin.settings);
@@ -1317,7 +2279,10 @@ export class IconocolorSettingTab extends PluginSettingTab {
 						});
 				});
 
-			if (current.type === 'lightness') {
+			if (current.type === 'pipeline') {
+				if (!current.steps) current.steps = [];
+				this.addTransformationStepsEditor(containerEl, 'Child base', current.steps, false);
+			} else if (current.type === 'lightness') {
 			new Setting(containerEl)
 				.setName('Lightness adjustment')
 				.setDesc('Percentage: positive = lighter, negative = darker (-100 to 100)')
@@ -1385,6 +2350,101 @@ export class IconocolorSettingTab extends PluginSettingTab {
 							}
 						});
 				});
+		} else if (current.type === 'oklch') {
+			new Setting(containerEl)
+				.setName('Lightness adjustment')
+				.setDesc('Perceptual lightness adjustment in percentage points (-100 to 100)')
+				.addText(text => {
+					text.setPlaceholder('5')
+						.setValue(current.lightness !== undefined ? String(current.lightness) : '5')
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? 5 : parseFloat(value);
+							if (!isNaN(numValue)) {
+								this.plugin.settings.childBaseTransformation.lightness = Math.max(-100, Math.min(100, numValue));
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							}
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Chroma adjustment')
+				.setDesc('Chroma adjustment in percentage, 100% = chroma 0.4 (-100 to 100)')
+				.addText(text => {
+					text.setPlaceholder('0')
+						.setValue(current.chroma !== undefined ? String(current.chroma) : '0')
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? 0 : parseFloat(value);
+							if (!isNaN(numValue)) {
+								this.plugin.settings.childBaseTransformation.chroma = Math.max(-100, Math.min(100, numValue));
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							}
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Hue shift')
+				.setDesc('Hue shift in degrees (-180 to 180)')
+				.addText(text => {
+					text.setPlaceholder('0')
+						.setValue(current.hue !== undefined ? String(current.hue) : '0')
+						.onChange(async (value) => {
+							const numValue = value.trim() === '' ? 0 : parseFloat(value);
+							if (!isNaN(numValue)) {
+								this.plugin.settings.childBaseTransformation.hue = Math.max(-180, Math.min(180, numValue));
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							}
+						});
+				});
+			}
+		}
+
+		// Per-depth table; depths past the end of the table use the transformation above
+		if (!current.depthTransformations) current.depthTransformations = [];
+		new Setting(containerEl)
+			.setName('Transformations by depth')
+			.setDesc('Replace the transformation above at specific depths. Level 1 is a folder directly inside a top-level folder, or inside the folder that overrides the child transformation.');
+		this.addTransformationStepsEditor(containerEl, 'Child', current.depthTransformations, false, 'level',
+			current.depthTransformations.length === 0
+				? 'No levels yet, so every depth uses the transformation above'
+				: current.type === 'none'
+					? 'Deeper levels than listed do not inherit'
+					: 'Deeper levels than listed use the transformation above');
+
+		if (current.type !== 'none') {
+			// Clamps keep deep trees from drifting to white, black or gray
+			const clamps: { key: 'minLightness' | 'maxLightness' | 'minSaturation' | 'maxSaturation'; name: string }[] = [
+				{ key: 'minLightness', name: 'Minimum lightness' },
+				{ key: 'maxLightness', name: 'Maximum lightness' },
+				{ key: 'minSaturation', name: 'Minimum saturation' },
+				{ key: 'maxSaturation', name: 'Maximum saturation' },
+			];
+			for (const clamp of clamps) {
+				new Setting(containerEl)
+					.setName(clamp.name)
+					.setDesc('Limit for child colors in percent (0 to 100), leave empty for no limit')
+					.addText(text => {
+						text.setPlaceholder('None')
+							.setValue(current[clamp.key] !== undefined ? String(current[clamp.key]) : '')
+							.onChange(async (value) => {
+								const numValue = parseFloat(value);
+								if (value.trim() === '') {
+									this.plugin.settings.childBaseTransformation[clamp.key] = undefined;
+								} else if (!isNaN(numValue)) {
+									this.plugin.settings.childBaseTransformation[clamp.key] = Math.max(0, Math.min(100, numValue));
+								} else {
+									return;
+								}
+								await this.plugin.saveSettings();
+								await this.plugin.folderManager.updateSettings(this.plugin.settings);
+								this.updateAllPreviews();
+							});
+					});
 			}
 		}
 
@@ -1534,10 +2594,16 @@ export class IconocolorSettingTab extends PluginSettingTab {
 			activePaletteIndex: this.plugin.settings.activePaletteIndex,
 			autoColorEnabled: this.plugin.settings.autoColorEnabled,
 			autoColorMode: this.plugin.settings.autoColorMode,
+			heatmapMetric: this.plugin.settings.heatmapMetric,
+			autoColorAssignment: this.plugin.settings.autoColorAssignment,
+			gradientInterpolation: this.plugin.settings.gradientInterpolation,
 			iconColorTransformation: deepClone(this.plugin.settings.iconColorTransformation),
 			folderColorTransformation: deepClone(this.plugin.settings.folderColorTransformation),
 			textColorTransformation: deepClone(this.plugin.settings.textColorTransformation),
+			themeTransformations: deepClone(this.plugin.settings.themeTransformations || {}),
 			childBaseTransformation: deepClone(this.plugin.settings.childBaseTransformation),
+			baseColorStrategy: this.plugin.settings.baseColorStrategy,
+			depthColoring: deepClone(this.plugin.settings.depthColoring),
 			folderColorOpacity: this.plugin.settings.folderColorOpacity,
 			defaultIconRules: deepClone(this.plugin.settings.defaultIconRules || []),
 		};
@@ -1577,10 +2643,16 @@ export class IconocolorSettingTab extends PluginSettingTab {
 		if (profile.activePaletteIndex !== undefined) this.plugin.settings.activePaletteIndex = profile.activePaletteIndex;
 		if (profile.autoColorEnabled !== undefined) this.plugin.settings.autoColorEnabled = profile.autoColorEnabled;
 		if (profile.autoColorMode) this.plugin.settings.autoColorMode = profile.autoColorMode;
+		if (profile.heatmapMetric) this.plugin.settings.heatmapMetric = profile.heatmapMetric;
+		if (profile.autoColorAssignment) this.plugin.settings.autoColorAssignment = profile.autoColorAssignment;
+		if (profile.gradientInterpolation) this.plugin.settings.gradientInterpolation = profile.gradientInterpolation;
 		if (profile.iconColorTransformation) this.plugin.settings.iconColorTransformation = deepClone(profile.iconColorTransformation);
 		if (profile.folderColorTransformation) this.plugin.settings.folderColorTransformation = deepClone(profile.folderColorTransformation);
 		if (profile.textColorTransformation) this.plugin.settings.textColorTransformation = deepClone(profile.textColorTransformation);
+		if (profile.themeTransformations) this.plugin.settings.themeTransformations = deepClone(profile.themeTransformations);
 		if (profile.childBaseTransformation) this.plugin.settings.childBaseTransformation = deepClone(profile.childBaseTransformation);
+		if (profile.baseColorStrategy) this.plugin.settings.baseColorStrategy = profile.baseColorStrategy;
+		if (profile.depthColoring) this.plugin.settings.depthColoring = deepClone(profile.depthColoring);
 		if (profile.folderColorOpacity !== undefined) this.plugin.settings.folderColorOpacity = profile.folderColorOpacity;
 		if (profile.defaultIconRules) this.plugin.settings.defaultIconRules = deepClone(profile.defaultIconRules);
 
@@ -2,15 +2,39 @@
  * Color utility functions for palettes and gradients
  */
 
+import { ChildBaseTransformation, ColorTransformation, InterpolationSpace, PaletteGeneratorOptions, PaletteHarmony, VisionDeficiency } from '../types';
+
 /**
  * Interpolate between two hex colors
+ * sRGB blends channels directly; the other spaces avoid the grey midpoints between distant hues
  */
-export function interpolateColor(color1: string, color2: string, factor: number): string {
+export function interpolateColor(color1: string, color2: string, factor: number, space: InterpolationSpace = 'srgb'): string {
 	const c1 = hexToRgb(color1);
 	const c2 = hexToRgb(color2);
 	
 	if (!c1 || !c2) return color1;
 	
+	if (space === 'hsl') {
+		const hsl1 = rgbToHsl(c1.r, c1.g, c1.b);
+		const hsl2 = rgbToHsl(c2.r, c2.g, c2.b);
+		const h = interpolateHue(hsl1.h, hsl2.h, factor, hsl1.s === 0, hsl2.s === 0);
+		const rgb = hslToRgb(h, hsl1.s + (hsl2.s - hsl1.s) * factor, hsl1.l + (hsl2.l - hsl1.l) * factor);
+		return rgbToHex(rgb.r, rgb.g, rgb.b);
+	} else if (space === 'oklab') {
+		const lab1 = hexToOklab(color1)!;
+		const lab2 = hexToOklab(color2)!;
+		return oklabToHex(
+			lab1.L + (lab2.L - lab1.L) * factor,
+			lab1.a + (lab2.a - lab1.a) * factor,
+			lab1.b + (lab2.b - lab1.b) * factor
+		);
+	} else if (space === 'oklch') {
+		const lch1 = hexToOklch(color1)!;
+		const lch2 = hexToOklch(color2)!;
+		const h = interpolateHue(lch1.h, lch2.h, factor, lch1.c < ACHROMATIC_CHROMA, lch2.c < ACHROMATIC_CHROMA);
+		return oklchToHex(lch1.l + (lch2.l - lch1.l) * factor, lch1.c + (lch2.c - lch1.c) * factor, h);
+	}
+	
 	const r = Math.round(c1.r + (c2.r - c1.r) * factor);
 	const g = Math.round(c1.g + (c2.g - c1.g) * factor);
 	const b = Math.round(c1.b + (c2.b - c1.b) * factor);
@@ -18,11 +42,29 @@ export function interpolateColor(color1: string, color2: string, factor: number)
 	return rgbToHex(r, g, b);
 }
 
+// OKLCH chroma below which a color counts as grey (its hue is meaningless)
+const ACHROMATIC_CHROMA = 0.0001;
+
+/**
+ * Interpolate between two hues along the shorter way around the color wheel
+ * A grey endpoint has no real hue, so it takes the other endpoint's hue
+ */
+function interpolateHue(h1: number, h2: number, factor: number, grey1: boolean, grey2: boolean): number {
+	if (grey1 && !grey2) h1 = h2;
+	if (grey2 && !grey1) h2 = h1;
+	
+	let delta = h2 - h1;
+	if (delta > 180) delta -= 360;
+	if (delta < -180) delta += 360;
+	return (h1 + delta * factor + 360) % 360;
+}
+
 /**
  * Convert hex to RGB
+ * An alpha channel (#RRGGBBAA) is accepted and ignored
  */
 export function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
-	const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+	const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})(?:[a-f\d]{2})?$/i.exec(hex);
 	return result ? {
 		r: parseInt(result[1], 16),
 		g: parseInt(result[2], 16),
@@ -43,29 +85,35 @@ export function rgbToHex(r: number, g: number, b: number): string {
 /**
  * Generate gradient colors between palette colors
  */
-export function generateGradientColors(palette: string[], count: number): string[] {
+export function generateGradientColors(palette: string[], count: number, space: InterpolationSpace = 'srgb'): string[] {
 	if (palette.length === 0) return [];
 	if (palette.length === 1) return Array(count).fill(palette[0]);
 	if (count <= palette.length) return palette.slice(0, count);
 	
 	const colors: string[] = [];
-	const segments = palette.length - 1;
-	
 	for (let i = 0; i < count; i++) {
-		const position = i / (count - 1);
-		const segmentIndex = Math.min(Math.floor(position * segments), segments - 1);
-		const segmentStart = segmentIndex / segments;
-		const segmentEnd = (segmentIndex + 1) / segments;
-		const segmentFactor = (position - segmentStart) / (segmentEnd - segmentStart);
-		
-		const color1 = palette[segmentIndex];
-		const color2 = palette[segmentIndex + 1];
-		colors.push(interpolateColor(color1, color2, segmentFactor));
+		colors.push(sampleGradientColor(palette, i / (count - 1), space));
 	}
 	
 	return colors;
 }
 
+/**
+ * Get the color at a position (0-1) along the gradient through all palette colors
+ */
+export function sampleGradientColor(palette: string[], position: number, space: InterpolationSpace = 'srgb'): string {
+	if (palette.length === 1) return palette[0];
+	
+	const clamped = Math.max(0, Math.min(1, position));
+	const segments = palette.length - 1;
+	const segmentIndex = Math.min(Math.floor(clamped * segments), segments - 1);
+	const segmentStart = segmentIndex / segments;
+	const segmentEnd = (segmentIndex + 1) / segments;
+	const segmentFactor = (clamped - segmentStart) / (segmentEnd - segmentStart);
+	
+	return interpolateColor(palette[segmentIndex], palette[segmentIndex + 1], segmentFactor, space);
+}
+
 /**
  * Generate repeating colors from palette
  */
@@ -80,6 +128,32 @@ export function generateRepeatingColors(palette: string[], count: number): strin
 	return colors;
 }
 
+// Number of gradient steps hashed keys are spread over
+const HASHED_GRADIENT_STEPS = 24;
+
+/**
+ * Pick a palette color from a stable hash of a key (e.g. a folder name)
+ * The same key always gets the same color, regardless of which other folders exist
+ */
+export function pickHashedColor(palette: string[], key: string, mode: 'gradient' | 'repeat', space: InterpolationSpace = 'srgb'): string | undefined {
+	if (palette.length === 0) return undefined;
+	
+	// FNV-1a 32-bit hash
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < key.length; i++) {
+		hash ^= key.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	hash >>>= 0;
+	
+	if (mode === 'gradient' && palette.length > 1) {
+		// Spread keys along the whole gradient, not just the palette stops
+		const steps = Math.max(HASHED_GRADIENT_STEPS, palette.length);
+		return generateGradientColors(palette, steps, space)[hash % steps];
+	}
+	return palette[hash % palette.length];
+}
+
 /**
  * Convert RGB to HSL
  */
@@ -182,6 +256,483 @@ export function applyLightnessTransformation(hex: string, adjustment: number): s
 	return rgbToHex(newRgb.r, newRgb.g, newRgb.b);
 }
 
+/**
+ * Keep a color's HSL lightness and saturation within limits (percentages, unset = no limit)
+ */
+export function clampHslColor(hex: string, limits: { minLightness?: number; maxLightness?: number; minSaturation?: number; maxSaturation?: number }): string {
+	const { minLightness, maxLightness, minSaturation, maxSaturation } = limits;
+	if (minLightness === undefined && maxLightness === undefined && minSaturation === undefined && maxSaturation === undefined) {
+		return hex; // Skip the HSL round trip when nothing is clamped
+	}
+	const rgb = hexToRgb(hex);
+	if (!rgb) return hex;
+
+	const { h, s, l } = rgbToHsl(rgb.r, rgb.g, rgb.b);
+	const clamp = (value: number, min = 0, max = 100) => Math.max(min, Math.min(max, value));
+	const clampedS = clamp(s, minSaturation, maxSaturation);
+	const clampedL = clamp(l, minLightness, maxLightness);
+	if (clampedS === s && clampedL === l) return hex;
+
+	// Keep the alpha channel a transparency step may have set
+	const newRgb = hslToRgb(h, clampedS, clampedL);
+	return setHexAlpha(rgbToHex(newRgb.r, newRgb.g, newRgb.b), getHexAlpha(hex) * 100);
+}
+
+/**
+ * Mix a color toward another color
+ * Amount is the percentage of the other color (0 = unchanged, 100 = the other color)
+ */
+export function mixColors(hex: string, other: string, amount: number, space: InterpolationSpace = 'srgb'): string {
+	if (!hexToRgb(other)) return hex;
+	return interpolateColor(hex, other, Math.max(0, Math.min(100, amount)) / 100, space);
+}
+
+/**
+ * Get the complementary color (hue rotated by 180 degrees)
+ */
+export function getComplementaryColor(hex: string): string {
+	return applyHSLTransformation(hex, { hue: 180 });
+}
+
+/**
+ * Remove chroma from a color while keeping its perceptual lightness
+ * Amount is a percentage (0 = unchanged, 100 = grayscale)
+ */
+export function desaturateColor(hex: string, amount: number): string {
+	const lch = hexToOklch(hex);
+	if (!lch) return hex;
+	const factor = 1 - Math.max(0, Math.min(100, amount)) / 100;
+	return oklchToHex(lch.l, lch.c * factor, lch.h);
+}
+
+/**
+ * Get the alpha channel of a hex color (0-1, 1 when the color has none)
+ */
+export function getHexAlpha(hex: string): number {
+	const result = /^#?[a-f\d]{6}([a-f\d]{2})$/i.exec(hex);
+	return result ? parseInt(result[1], 16) / 255 : 1;
+}
+
+/**
+ * Set the alpha channel of a hex color
+ * Alpha is a percentage (0 = transparent, 100 = opaque, returned without an alpha channel)
+ */
+export function setHexAlpha(hex: string, alpha: number): string {
+	const rgb = hexToRgb(hex);
+	if (!rgb) return hex;
+	const color = rgbToHex(rgb.r, rgb.g, rgb.b);
+	const value = Math.round(Math.max(0, Math.min(100, alpha)) / 100 * 255);
+	return value === 255 ? color : color + value.toString(16).padStart(2, '0');
+}
+
+/**
+ * Convert an sRGB channel (0-255) to linear light (0-1)
+ */
+function srgbToLinear(channel: number): number {
+	const c = channel / 255;
+	return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert linear light (0-1) to an sRGB channel (0-255, unclamped)
+ */
+function linearToSrgb(value: number): number {
+	const c = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+	return c * 255;
+}
+
+/**
+ * Convert hex to OKLab (L 0-1, a and b roughly -0.4 to 0.4)
+ */
+export function hexToOklab(hex: string): { L: number; a: number; b: number } | null {
+	const rgb = hexToRgb(hex);
+	if (!rgb) return null;
+
+	const r = srgbToLinear(rgb.r);
+	const g = srgbToLinear(rgb.g);
+	const b = srgbToLinear(rgb.b);
+
+	const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+	const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+	const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+	return {
+		L: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+		a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+		b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+	};
+}
+
+/**
+ * Convert OKLab to sRGB channels (0-255, unclamped so callers can detect out-of-gamut colors)
+ */
+function oklabToRgb(L: number, a: number, b: number): { r: number; g: number; b: number } {
+	const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+	const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+	const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+	return {
+		r: linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+		g: linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+		b: linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+	};
+}
+
+/**
+ * Convert OKLab to hex (out-of-gamut channels are clamped)
+ */
+export function oklabToHex(L: number, a: number, b: number): string {
+	const rgb = oklabToRgb(L, a, b);
+	const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+	return rgbToHex(clamp(rgb.r), clamp(rgb.g), clamp(rgb.b));
+}
+
+/**
+ * Convert CIE L*a*b* (D50 white point, as used by print and design tools) to hex
+ * L is 0-100; out-of-gamut channels are clamped
+ */
+export function cieLabToHex(L: number, a: number, b: number): string {
+	const fy = (L + 16) / 116;
+	const fx = fy + a / 500;
+	const fz = fy - b / 200;
+	const inverse = (t: number) => t > 6 / 29 ? t * t * t : 3 * (6 / 29) * (6 / 29) * (t - 4 / 29);
+
+	const x = 0.96422 * inverse(fx);
+	const y = inverse(fy);
+	const z = 0.82521 * inverse(fz);
+
+	// XYZ (D50) to linear sRGB, with Bradford adaptation to D65
+	const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+	return rgbToHex(
+		clamp(linearToSrgb(3.1338561 * x - 1.6168667 * y - 0.4906146 * z)),
+		clamp(linearToSrgb(-0.9787684 * x + 1.9161415 * y + 0.0334540 * z)),
+		clamp(linearToSrgb(0.0719453 * x - 0.2289914 * y + 1.4052427 * z))
+	);
+}
+
+/**
+ * Convert hex to OKLCH (l 0-1, c 0 to about 0.4, h 0-360)
+ */
+export function hexToOklch(hex: string): { l: number; c: number; h: number } | null {
+	const lab = hexToOklab(hex);
+	if (!lab) return null;
+
+	const h = Math.atan2(lab.b, lab.a) * 180 / Math.PI;
+	return {
+		l: lab.L,
+		c: Math.sqrt(lab.a * lab.a + lab.b * lab.b),
+		h: (h + 360) % 360,
+	};
+}
+
+/**
+ * Convert OKLCH to hex
+ * Colors outside sRGB keep their lightness and hue and lose chroma until they fit
+ */
+export function oklchToHex(l: number, c: number, h: number): string {
+	const lightness = Math.max(0, Math.min(1, l));
+	const hueRad = h * Math.PI / 180;
+	const inGamut = (chroma: number) => {
+		const rgb = oklabToRgb(lightness, chroma * Math.cos(hueRad), chroma * Math.sin(hueRad));
+		return [rgb.r, rgb.g, rgb.b].every(channel => channel >= -0.5 && channel <= 255.5);
+	};
+
+	let chroma = Math.max(0, c);
+	if (!inGamut(chroma)) {
+		// Binary search for the largest chroma that fits
+		let low = 0;
+		let high = chroma;
+		for (let i = 0; i < 20; i++) {
+			const mid = (low + high) / 2;
+			if (inGamut(mid)) {
+				low = mid;
+			} else {
+				high = mid;
+			}
+		}
+		chroma = low;
+	}
+
+	return oklabToHex(lightness, chroma * Math.cos(hueRad), chroma * Math.sin(hueRad));
+}
+
+/**
+ * Apply OKLCH transformation to a color
+ * Lightness steps look the same size on every hue, unlike HSL
+ */
+export function applyOklchTransformation(hex: string, transformation: { lightness?: number; chroma?: number; hue?: number }): string {
+	const lch = hexToOklch(hex);
+	if (!lch) return hex;
+
+	let { l, c, h } = lch;
+	if (transformation.lightness !== undefined) {
+		l = Math.max(0, Math.min(1, l + transformation.lightness / 100));
+	}
+	if (transformation.chroma !== undefined) {
+		c = Math.max(0, c + transformation.chroma / 100 * 0.4);
+	}
+	if (transformation.hue !== undefined) {
+		h = (h + transformation.hue + 360) % 360;
+	}
+
+	return oklchToHex(l, c, h);
+}
+
+// Hue offsets from the seed for each harmony (analogous spreads its colors across ±ANALOGOUS_SPREAD instead)
+const HARMONY_HUE_OFFSETS: Record<PaletteHarmony, number[]> = {
+	analogous: [0],
+	complementary: [0, 180],
+	triadic: [0, 120, 240],
+	tetradic: [0, 90, 180, 270],
+	monochrome: [0],
+};
+const ANALOGOUS_SPREAD = 45;
+
+/**
+ * Generate palette colors from a seed color and a harmony rule
+ * Colors are built in OKLCH so lightness looks even across hues. Each hue gets a
+ * group of colors ramping from the minimum to the maximum lightness; a group of one
+ * keeps the seed's lightness, clamped to the range
+ */
+export function generateHarmonyPalette(options: PaletteGeneratorOptions): string[] {
+	const seed = hexToOklch(options.seed);
+	const count = Math.max(1, Math.round(options.count));
+	if (!seed) return [];
+
+	const minL = Math.min(options.minLightness, options.maxLightness) / 100;
+	const maxL = Math.max(options.minLightness, options.maxLightness) / 100;
+	const chroma = Math.min(seed.c, options.maxChroma / 100 * 0.4);
+	const seedL = Math.max(minL, Math.min(maxL, seed.l));
+
+	// Hues in palette order, each with the number of colors it gets
+	const groups: { hue: number; size: number }[] = [];
+	if (options.harmony === 'analogous') {
+		for (let i = 0; i < count; i++) {
+			const offset = count === 1 ? 0 : -ANALOGOUS_SPREAD + (2 * ANALOGOUS_SPREAD * i) / (count - 1);
+			groups.push({ hue: seed.h + offset, size: 1 });
+		}
+	} else {
+		const offsets = HARMONY_HUE_OFFSETS[options.harmony].slice(0, count);
+		offsets.forEach((offset, i) => {
+			// Earlier hues take the remainder when count doesn't divide evenly
+			const size = Math.floor(count / offsets.length) + (i < count % offsets.length ? 1 : 0);
+			groups.push({ hue: seed.h + offset, size });
+		});
+	}
+
+	const colors: string[] = [];
+	for (const { hue, size } of groups) {
+		for (let i = 0; i < size; i++) {
+			const l = size === 1 ? seedL : minL + (maxL - minL) * i / (size - 1);
+			colors.push(oklchToHex(l, chroma, (hue + 360) % 360));
+		}
+	}
+	return colors;
+}
+
+// Linear RGB matrices for full-severity dichromacy (Machado, Oliveira and Fernandes, 2009)
+const VISION_MATRICES: Record<Exclude<VisionDeficiency, 'none'>, number[][]> = {
+	protanopia: [
+		[0.152286, 1.052583, -0.204868],
+		[0.114503, 0.786281, 0.099216],
+		[-0.003882, -0.048116, 1.051998],
+	],
+	deuteranopia: [
+		[0.367322, 0.860646, -0.227968],
+		[0.280085, 0.672501, 0.047413],
+		[-0.011820, 0.042940, 0.968881],
+	],
+	tritanopia: [
+		[1.255528, -0.076749, -0.178779],
+		[-0.078411, 0.930809, 0.147602],
+		[0.004733, 0.691367, 0.303900],
+	],
+};
+
+/**
+ * Simulate how a color looks with a color vision deficiency
+ */
+export function simulateColorVision(hex: string, deficiency: VisionDeficiency): string {
+	if (deficiency === 'none') return hex;
+	const rgb = hexToRgb(hex);
+	if (!rgb) return hex;
+
+	const linear = [srgbToLinear(rgb.r), srgbToLinear(rgb.g), srgbToLinear(rgb.b)];
+	const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+	const [r, g, b] = VISION_MATRICES[deficiency].map(row =>
+		clamp(linearToSrgb(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]))
+	);
+	return rgbToHex(r, g, b);
+}
+
+/**
+ * Get the perceptual distance between two colors (Euclidean distance in OKLab)
+ * About 0.02 is barely noticeable side by side; black to white is 1
+ */
+export function getPerceptualDistance(color1: string, color2: string): number {
+	const lab1 = hexToOklab(color1);
+	const lab2 = hexToOklab(color2);
+	if (!lab1 || !lab2) return 0;
+	return Math.hypot(lab1.L - lab2.L, lab1.a - lab2.a, lab1.b - lab2.b);
+}
+
+// Distance below which neighboring folder colors are hard to tell apart at a glance
+export const MIN_DISTINCT_DISTANCE = 0.05;
+
+/**
+ * Find neighboring colors that become hard to tell apart with a color vision deficiency
+ * Pairs that already look alike with typical vision are skipped, since the deficiency isn't the cause
+ * Returns the index of the first color of each pair with its simulated distance
+ */
+export function findIndistinctNeighbors(colors: string[], deficiency: VisionDeficiency, minDistance = MIN_DISTINCT_DISTANCE): { index: number; distance: number }[] {
+	const simulated = colors.map(color => simulateColorVision(color, deficiency));
+	const pairs: { index: number; distance: number }[] = [];
+	for (let i = 0; i < simulated.length - 1; i++) {
+		const distance = getPerceptualDistance(simulated[i], simulated[i + 1]);
+		if (distance < minDistance && getPerceptualDistance(colors[i], colors[i + 1]) >= minDistance) {
+			pairs.push({ index: i, distance });
+		}
+	}
+	return pairs;
+}
+
+/**
+ * Get WCAG relative luminance of a color (0 = black, 1 = white)
+ */
+export function getRelativeLuminance(hex: string): number {
+	const rgb = hexToRgb(hex);
+	if (!rgb) return 0;
+
+	const [r, g, b] = [rgb.r, rgb.g, rgb.b].map(channel => {
+		const c = channel / 255;
+		return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+	});
+	return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Get WCAG contrast ratio between two colors (1 to 21)
+ */
+export function getContrastRatio(color1: string, color2: string): number {
+	const l1 = getRelativeLuminance(color1);
+	const l2 = getRelativeLuminance(color2);
+	return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Blend a color at an opacity (0-100) over a background color
+ * The color's own alpha channel multiplies the opacity, as when it is rendered
+ */
+export function blendOverBackground(color: string, background: string, opacity: number): string {
+	return interpolateColor(background, color, Math.max(0, Math.min(100, opacity)) / 100 * getHexAlpha(color));
+}
+
+/**
+ * Adjust a color's lightness until it reaches a contrast ratio against a background
+ * Keeps hue and saturation, taking the smallest lightness change that works;
+ * falls back to black or white when no lightness of this hue is enough
+ */
+export function ensureContrast(hex: string, background: string, ratio: number): string {
+	const rgb = hexToRgb(hex);
+	if (!rgb || getContrastRatio(hex, background) >= ratio) return hex;
+
+	const { h, s, l } = rgbToHsl(rgb.r, rgb.g, rgb.b);
+	for (let step = 1; step <= 100; step++) {
+		for (const candidateL of [l + step, l - step]) {
+			if (candidateL < 0 || candidateL > 100) continue;
+			const candidateRgb = hslToRgb(h, s, candidateL);
+			const candidate = rgbToHex(candidateRgb.r, candidateRgb.g, candidateRgb.b);
+			if (getContrastRatio(candidate, background) >= ratio) {
+				return candidate;
+			}
+		}
+	}
+
+	return getContrastRatio('#000000', background) >= getContrastRatio('#ffffff', background) ? '#000000' : '#ffffff';
+}
+
+/**
+ * Apply a color transformation to get an element color from a base color
+ * Contrast transformations are measured against the background; mixes blend in the given space
+ */
+export function applyColorTransformation(baseColor: string, transformation: ColorTransformation, background: string, space: InterpolationSpace = 'srgb'): string {
+	if (transformation.type === 'hsl') {
+		return applyHSLTransformation(baseColor, {
+			hue: transformation.hue,
+			saturation: transformation.saturation,
+			lightness: transformation.lightness,
+		});
+	} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
+		return applyLightnessTransformation(baseColor, transformation.adjustment);
+	} else if (transformation.type === 'oklch') {
+		return applyOklchTransformation(baseColor, {
+			lightness: transformation.lightness,
+			chroma: transformation.chroma,
+			hue: transformation.hue,
+		});
+	} else if (transformation.type === 'contrast') {
+		return ensureContrast(baseColor, background, transformation.ratio);
+	} else if (transformation.type === 'mix') {
+		return mixColors(baseColor, transformation.color, transformation.amount, space);
+	} else if (transformation.type === 'tint') {
+		return mixColors(baseColor, '#ffffff', transformation.amount, space);
+	} else if (transformation.type === 'shade') {
+		return mixColors(baseColor, '#000000', transformation.amount, space);
+	} else if (transformation.type === 'complement') {
+		return getComplementaryColor(baseColor);
+	} else if (transformation.type === 'desaturate') {
+		return desaturateColor(baseColor, transformation.amount);
+	} else if (transformation.type === 'alpha') {
+		return setHexAlpha(baseColor, transformation.alpha);
+	} else if (transformation.type === 'pipeline') {
+		// Each step transforms the previous step's result
+		// Color steps return opaque colors, so an earlier transparency step's alpha is re-applied after them
+		return transformation.steps.reduce((color, step) => {
+			const next = applyColorTransformation(color, step, background, space);
+			return step.type === 'alpha' ? next : setHexAlpha(next, getHexAlpha(color) * 100);
+		}, baseColor);
+	}
+	return baseColor; // 'none' transformation
+}
+
+/**
+ * Derive a child base color from its parent's base color
+ * Level counts from the folder that owns the transformation (1 = its direct child) and picks the per-depth
+ * table entry; levels the table doesn't cover use the selected transformation. Gradient needs sibling
+ * context, so callers apply it to the parent color first
+ * Returns undefined when the transformation is 'none' and the table has no entry (children don't inherit)
+ */
+export function deriveChildBaseColor(parentBaseColor: string, transformation: ChildBaseTransformation, level: number, background: string, space: InterpolationSpace = 'srgb'): string | undefined {
+	const depthTransformation = transformation.depthTransformations?.[level - 1];
+	if (transformation.type === 'none' && !depthTransformation) {
+		return undefined;
+	}
+	
+	let childColor = parentBaseColor;
+	if (depthTransformation) {
+		childColor = applyColorTransformation(parentBaseColor, depthTransformation, background, space);
+	} else if (transformation.type === 'pipeline') {
+		childColor = applyColorTransformation(parentBaseColor, { type: 'pipeline', steps: transformation.steps ?? [] }, background, space);
+	} else if (transformation.type === 'hsl') {
+		childColor = applyHSLTransformation(parentBaseColor, {
+			hue: transformation.hue,
+			saturation: transformation.saturation,
+			lightness: transformation.lightness,
+		});
+	} else if (transformation.type === 'lightness' && transformation.adjustment !== undefined) {
+		childColor = applyLightnessTransformation(parentBaseColor, transformation.adjustment);
+	} else if (transformation.type === 'oklch') {
+		childColor = applyOklchTransformation(parentBaseColor, {
+			lightness: transformation.lightness,
+			chroma: transformation.chroma,
+			hue: transformation.hue,
+		});
+	}
+	
+	// Keep deep trees readable
+	return clampHslColor(childColor, transformation);
+}
+
 /**
  * Get hue value from hex color
  */
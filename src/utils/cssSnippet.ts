@@ -0,0 +1,59 @@
+/**
+ * Standalone CSS snippet export
+ * Writes the computed explorer styles to a snippet that works without the plugin installed
+ */
+
+import { App } from 'obsidian';
+import { buildTreeItemIconRule, buildTreeItemRules, TreeItemStyle } from './domUtils';
+import { getIconSvgMarkup } from './iconService';
+
+export const SNIPPET_FILE_NAME = 'iconocolor.css';
+
+/**
+ * Build the snippet contents: colors plus icons embedded as mask-image data URIs
+ * Icons that aren't SVGs (images and URLs) are left out
+ */
+export async function buildCssSnippet(app: App, styles: TreeItemStyle[], pluginId: string, iconSize: number): Promise<string> {
+	const lines = [
+		'/* Generated by Iconocolor. Re-export after changing folder styles; edits to this file are overwritten. */',
+	];
+
+	// Each icon is embedded once per distinct icon, not once per row
+	const maskUrls = new Map<string, string | null>();
+
+	for (const { kind, path, config, opacity } of styles) {
+		const rule = buildTreeItemRules(kind, path, config, opacity);
+		if (rule) {
+			lines.push(rule);
+		}
+
+		if (config.icon) {
+			if (!maskUrls.has(config.icon)) {
+				// Masks only use the shape, the color comes from the rule's background
+				const svg = await getIconSvgMarkup(app, config.icon, '#000000');
+				maskUrls.set(config.icon, svg ? `data:image/svg+xml,${encodeURIComponent(svg)}` : null);
+			}
+			const maskUrl = maskUrls.get(config.icon);
+			if (maskUrl) {
+				lines.push(buildTreeItemIconRule(kind, path, maskUrl, config.iconColor, pluginId, iconSize));
+			}
+		}
+	}
+
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Write the snippet to the vault's snippets folder, replacing any earlier export
+ * Returns the path written
+ */
+export async function exportCssSnippet(app: App, styles: TreeItemStyle[], pluginId: string, iconSize: number): Promise<string> {
+	const snippetsPath = `${app.vault.configDir}/snippets`;
+	if (!(await app.vault.adapter.exists(snippetsPath))) {
+		await app.vault.adapter.mkdir(snippetsPath);
+	}
+
+	const filePath = `${snippetsPath}/${SNIPPET_FILE_NAME}`;
+	await app.vault.adapter.write(filePath, await buildCssSnippet(app, styles, pluginId, iconSize));
+	return filePath;
+}
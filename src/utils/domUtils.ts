@@ -2,7 +2,7 @@ import { FolderConfig } from '../types';
 import { App, setIcon } from 'obsidian';
 import { isLocalIcon } from './iconDownloader';
 import { renderIconAsSvg, isLucideIcon, getLucideIconName, getLucideIconUrl } from './iconService';
-import { getColorFilter } from './colorUtils';
+import { getColorFilter, getHexAlpha } from './colorUtils';
 
 export function setCssProps(element: HTMLElement | SVGElement, props: Partial<CSSStyleDeclaration>): void {
 	for (const [key, value] of Object.entries(props)) {
@@ -16,8 +16,11 @@ export function setCssProps(element: HTMLElement | SVGElement, props: Partial<CS
 
 /**
  * Convert hex color to rgba string with opacity
+ * A color's own alpha channel multiplies the opacity
  */
 function hexToRgba(hex: string, opacity: number): string {
+	opacity *= getHexAlpha(hex);
+
 	// Remove # if present
 	hex = hex.replace('#', '');
 	
@@ -29,6 +32,30 @@ function hexToRgba(hex: string, opacity: number): string {
 	return `rgba(${r}, ${g}, ${b}, ${opacity})`;
 }
 
+/**
+ * Selectors describing the parts of a file explorer row (folder or file)
+ */
+interface TreeItemSelectors {
+	title: string; // Row title element (carries data-path and the background)
+	content: string; // Element holding the name text (icon is inserted here)
+	icon: string; // Obsidian's own icon area (collapse arrow / file icon)
+	styledClass: string; // Class suffix added to the title when a background is set
+}
+
+const FOLDER_SELECTORS: TreeItemSelectors = {
+	title: '.nav-folder-title',
+	content: '.nav-folder-title-content',
+	icon: '.nav-folder-title-icon',
+	styledClass: 'styled-folder-title',
+};
+
+const FILE_SELECTORS: TreeItemSelectors = {
+	title: '.nav-file-title',
+	content: '.nav-file-title-content',
+	icon: '.nav-file-title-icon',
+	styledClass: 'styled-file-title',
+};
+
 /**
  * Applies icon and color styling to a folder element in the file explorer
  */
@@ -40,55 +67,146 @@ export function applyFolderStyles(
 	app?: App,
 	folderColorOpacity: number = 100
 ): void {
-	const folderName = element.querySelector('.nav-folder-title-content') as HTMLElement;
-	const folderIcon = element.querySelector('.nav-folder-title-icon') as HTMLElement;
+	applyTreeItemStyles(element, FOLDER_SELECTORS, config, pluginId, iconSize, app, folderColorOpacity);
+}
+
+/**
+ * Applies icon and color styling to a file element in the file explorer
+ */
+export function applyFileStyles(
+	element: HTMLElement,
+	config: FolderConfig,
+	pluginId: string,
+	iconSize: number = 16,
+	app?: App,
+	folderColorOpacity: number = 100
+): void {
+	applyTreeItemStyles(element, FILE_SELECTORS, config, pluginId, iconSize, app, folderColorOpacity);
+}
+
+/**
+ * Everything one folder or file row displays, as computed by FolderManager
+ */
+export interface TreeItemStyle {
+	kind: 'folder' | 'file';
+	path: string;
+	config: FolderConfig; // Icon and final colors
+	opacity: number; // Background opacity (0-100)
+}
+
+/**
+ * Build the generated-stylesheet rules for one folder or file row
+ * Mirrors the inline background and text colors of applyTreeItemStyles, keyed by the row's data-path
+ */
+export function buildTreeItemRules(
+	kind: 'folder' | 'file',
+	path: string,
+	config: FolderConfig,
+	folderColorOpacity: number = 100
+): string {
+	const selectors = kind === 'folder' ? FOLDER_SELECTORS : FILE_SELECTORS;
+	const title = `${selectors.title}[data-path="${escapeCssString(path)}"]`;
+	const rules: string[] = [];
+	
+	if (config.folderColor) {
+		const bgColor = hexToRgba(config.folderColor, folderColorOpacity / 100);
+		rules.push(`${title} { --folder-bg-color: ${bgColor}; background-color: var(--folder-bg-color) !important; }`);
+		rules.push(`${title}::before { display: none !important; content: none !important; }`);
+	}
+	if (config.textColor) {
+		rules.push(`${title} ${selectors.content} { color: ${config.textColor} !important; }`);
+	}
+	
+	return rules.join('\n');
+}
+
+/**
+ * Build a rule that draws an icon before a row's name using a mask image
+ * Skipped on rows where the plugin already inserted its own icon element
+ */
+export function buildTreeItemIconRule(
+	kind: 'folder' | 'file',
+	path: string,
+	maskUrl: string,
+	iconColor: string | undefined,
+	pluginId: string,
+	iconSize: number = 16
+): string {
+	const selectors = kind === 'folder' ? FOLDER_SELECTORS : FILE_SELECTORS;
+	const content = `${selectors.title}[data-path="${escapeCssString(path)}"] ${selectors.content}:not(:has(.${pluginId}-custom-icon))`;
+	const mask = `url("${escapeCssString(maskUrl)}") center / contain no-repeat`;
+	return `${content}::before { content: ""; display: inline-block; flex-shrink: 0; width: ${iconSize}px; height: ${iconSize}px; margin-right: 4px; vertical-align: middle; background-color: ${iconColor || 'currentColor'}; -webkit-mask: ${mask}; mask: ${mask}; }`;
+}
+
+/**
+ * Escape a value for use inside a double-quoted CSS string
+ */
+function escapeCssString(value: string): string {
+	return value.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\a ');
+}
+
+/**
+ * Shared implementation for folder and file rows
+ */
+function applyTreeItemStyles(
+	element: HTMLElement,
+	selectors: TreeItemSelectors,
+	config: FolderConfig,
+	pluginId: string,
+	iconSize: number,
+	app: App | undefined,
+	folderColorOpacity: number
+): void {
+	const titleContent = element.querySelector(selectors.content) as HTMLElement;
+	const titleIcon = element.querySelector(selectors.icon) as HTMLElement;
 	
-	if (!folderName) return;
+	if (!titleContent) return;
 
-	// Apply folder background color with opacity
-	// We need to apply the class and CSS variable to the folder title element itself,
+	// Apply background color with opacity
+	// We need to apply the class and CSS variable to the title element itself,
 	// not the parent container, to avoid CSS cascading to child folders
-	const folderTitle = element.querySelector('.nav-folder-title') as HTMLElement;
-	if (config?.folderColor && folderTitle) {
+	const titleEl = element.querySelector(selectors.title) as HTMLElement;
+	const styledClass = `${pluginId}-${selectors.styledClass}`;
+	if (config?.folderColor && titleEl) {
 		const opacity = folderColorOpacity / 100;
 		const bgColor = hexToRgba(config.folderColor, opacity);
-		const currentBg = folderTitle.style.getPropertyValue('--folder-bg-color');
+		const currentBg = titleEl.style.getPropertyValue('--folder-bg-color');
 		if (currentBg !== bgColor) {
-			folderTitle.classList.add(`${pluginId}-styled-folder-title`);
-			folderTitle.style.setProperty('--folder-bg-color', bgColor);
+			titleEl.classList.add(styledClass);
+			titleEl.style.setProperty('--folder-bg-color', bgColor);
 		}
-	} else if (folderTitle) {
+	} else if (titleEl) {
 		// Only remove if it was previously set
-		if (folderTitle.classList.contains(`${pluginId}-styled-folder-title`)) {
-			folderTitle.classList.remove(`${pluginId}-styled-folder-title`);
-			folderTitle.style.removeProperty('--folder-bg-color');
+		if (titleEl.classList.contains(styledClass)) {
+			titleEl.classList.remove(styledClass);
+			titleEl.style.removeProperty('--folder-bg-color');
 		}
 	}
 
-	// Apply text color directly to the folder name element
+	// Apply text color directly to the name element
 	if (config?.textColor) {
-		const currentTextColor = folderName.style.color;
+		const currentTextColor = titleContent.style.color;
 		if (currentTextColor !== config.textColor) {
-			folderName.style.color = config.textColor;
+			titleContent.style.color = config.textColor;
 		}
 	} else {
 		// Only remove if it was previously set (check if it's our custom color)
-		const hasCustomColor = folderName.hasAttribute('data-iconocolor-text-color');
+		const hasCustomColor = titleContent.hasAttribute('data-iconocolor-text-color');
 		if (hasCustomColor) {
-			folderName.style.removeProperty('color');
-			folderName.removeAttribute('data-iconocolor-text-color');
+			titleContent.style.removeProperty('color');
+			titleContent.removeAttribute('data-iconocolor-text-color');
 		}
 	}
 
 	// Mark that we set a text color
 	if (config?.textColor) {
-		folderName.setAttribute('data-iconocolor-text-color', 'true');
+		titleContent.setAttribute('data-iconocolor-text-color', 'true');
 	}
 
 	// Apply icon (only if config has an icon)
 	if (config?.icon) {
 		// Check if icon already exists and matches - avoid unnecessary re-rendering
-		const existingIcon = folderName.querySelector(`.${pluginId}-custom-icon`) as HTMLElement;
+		const existingIcon = titleContent.querySelector(`.${pluginId}-custom-icon`) as HTMLElement;
 		const existingIconData = existingIcon?.getAttribute('data-icon-path');
 		const currentIconData = `${config.icon}|${config.iconColor || ''}`;
 		
@@ -184,24 +302,24 @@ export function applyFolderStyles(
 		}
 
 		// Remove ALL existing custom icons from folder title (including any that might be loading)
-		const allExistingIcons = folderName.querySelectorAll(`.${pluginId}-custom-icon`);
+		const allExistingIcons = titleContent.querySelectorAll(`.${pluginId}-custom-icon`);
 		allExistingIcons.forEach(icon => icon.remove());
 
 		// Also remove from folder icon area if it exists
-		if (folderIcon) {
-			const existingIconInIconArea = folderIcon.querySelectorAll(`.${pluginId}-custom-icon`);
+		if (titleIcon) {
+			const existingIconInIconArea = titleIcon.querySelectorAll(`.${pluginId}-custom-icon`);
 			existingIconInIconArea.forEach(icon => icon.remove());
 		}
 		
 		// Check if there's already a pending icon load (prevent duplicates from rapid calls)
-		const pendingIconMarker = folderName.getAttribute('data-iconocolor-loading');
+		const pendingIconMarker = titleContent.getAttribute('data-iconocolor-loading');
 		if (pendingIconMarker === currentIconData) {
 			// Icon is already being loaded with this exact config - skip
 			return;
 		}
 		
 		// Mark that we're loading this icon
-		folderName.setAttribute('data-iconocolor-loading', currentIconData);
+		titleContent.setAttribute('data-iconocolor-loading', currentIconData);
 
 		// Create icon element container
 		const iconEl = document.createElement('span');
@@ -274,22 +392,22 @@ export function applyFolderStyles(
 					}
 					
 					iconElement.setAttribute('data-icon-path', currentIconData);
-					folderName.removeAttribute('data-iconocolor-loading');
+					titleContent.removeAttribute('data-iconocolor-loading');
 					
 					// Insert icon immediately
-					const textNode = Array.from(folderName.childNodes).find(node => 
+					const textNode = Array.from(titleContent.childNodes).find(node => 
 						node.nodeType === Node.TEXT_NODE || 
 						(node.nodeType === Node.ELEMENT_NODE && !(node as Element).classList.contains(`${pluginId}-custom-icon`))
 					);
 					
 					if (textNode) {
-						folderName.insertBefore(iconElement, textNode);
+						titleContent.insertBefore(iconElement, textNode);
 					} else {
-						folderName.insertBefore(iconElement, folderName.firstChild);
+						titleContent.insertBefore(iconElement, titleContent.firstChild);
 					}
 				} catch (error) {
 					// Fallback to async if synchronous fails
-					folderName.removeAttribute('data-iconocolor-loading');
+					titleContent.removeAttribute('data-iconocolor-loading');
 					console.error(`[Iconocolor] Error loading Lucide icon ${config.icon}:`, error);
 					// Don't continue - Lucide icons should always work via Obsidian API
 					return;
@@ -310,22 +428,22 @@ export function applyFolderStyles(
 				});
 				placeholder.setAttribute('data-icon-path', currentIconData);
 				
-				const textNode = Array.from(folderName.childNodes).find(node => 
+				const textNode = Array.from(titleContent.childNodes).find(node => 
 					node.nodeType === Node.TEXT_NODE || 
 					(node.nodeType === Node.ELEMENT_NODE && !(node as Element).classList.contains(`${pluginId}-custom-icon`))
 				);
 				
 				if (textNode) {
-					folderName.insertBefore(placeholder, textNode);
+					titleContent.insertBefore(placeholder, textNode);
 				} else {
-					folderName.insertBefore(placeholder, folderName.firstChild);
+					titleContent.insertBefore(placeholder, titleContent.firstChild);
 				}
 				
 				// Load icon asynchronously, then replace placeholder
 				(async () => {
 					try {
 						// Double-check we're still supposed to load this icon (might have been changed by another call)
-						const stillLoading = folderName.getAttribute('data-iconocolor-loading') === currentIconData;
+						const stillLoading = titleContent.getAttribute('data-iconocolor-loading') === currentIconData;
 						if (!stillLoading) {
 							placeholder.remove();
 							return; // Another call changed the icon, abort
@@ -338,13 +456,13 @@ export function applyFolderStyles(
 						if (!hasContent) {
 							// Icon failed to load - remove placeholder and abort
 							placeholder.remove();
-							folderName.removeAttribute('data-iconocolor-loading');
+							titleContent.removeAttribute('data-iconocolor-loading');
 							console.warn(`[Iconocolor] Icon element has no content for ${config.icon}`);
 							return;
 						}
 						
 						// Triple-check before inserting (icon might have changed during async load)
-						const stillLoadingAfter = folderName.getAttribute('data-iconocolor-loading') === currentIconData;
+						const stillLoadingAfter = titleContent.getAttribute('data-iconocolor-loading') === currentIconData;
 						if (!stillLoadingAfter) {
 							placeholder.remove();
 							return; // Icon changed during load, abort
@@ -356,7 +474,7 @@ export function applyFolderStyles(
 						iconElement.setAttribute('data-icon-path', currentIconData);
 						
 						// Clear loading marker
-						folderName.removeAttribute('data-iconocolor-loading');
+						titleContent.removeAttribute('data-iconocolor-loading');
 						
 						// Replace placeholder
 						if (placeholder.parentNode) {
@@ -365,7 +483,7 @@ export function applyFolderStyles(
 					} catch (error) {
 						// Error loading icon - remove placeholder and clear loading marker
 						placeholder.remove();
-						folderName.removeAttribute('data-iconocolor-loading');
+						titleContent.removeAttribute('data-iconocolor-loading');
 						console.error(`[Iconocolor] Error loading icon ${config.icon}:`, error);
 					}
 				})().catch(console.error);
@@ -393,15 +511,15 @@ export function applyFolderStyles(
 			}
 			
 			// Insert icon at the beginning of folder name
-			const textNode = Array.from(folderName.childNodes).find(node => 
+			const textNode = Array.from(titleContent.childNodes).find(node => 
 				node.nodeType === Node.TEXT_NODE || 
 				(node.nodeType === Node.ELEMENT_NODE && !(node as Element).classList.contains(`${pluginId}-custom-icon`))
 			);
 			
 			if (textNode) {
-				folderName.insertBefore(iconEl, textNode);
+				titleContent.insertBefore(iconEl, textNode);
 			} else {
-				folderName.insertBefore(iconEl, folderName.firstChild);
+				titleContent.insertBefore(iconEl, titleContent.firstChild);
 			}
 		} else if (config.icon.startsWith('http') || config.icon.startsWith('/') || config.icon.includes('.')) {
 			// External URL - use img as fallback
@@ -421,27 +539,27 @@ export function applyFolderStyles(
 			iconEl.appendChild(img);
 			
 			// Insert icon at the beginning of folder name
-			const textNode = Array.from(folderName.childNodes).find(node => 
+			const textNode = Array.from(titleContent.childNodes).find(node => 
 				node.nodeType === Node.TEXT_NODE || 
 				(node.nodeType === Node.ELEMENT_NODE && !(node as Element).classList.contains(`${pluginId}-custom-icon`))
 			);
 			
 			if (textNode) {
-				folderName.insertBefore(iconEl, textNode);
+				titleContent.insertBefore(iconEl, textNode);
 			} else {
-				folderName.insertBefore(iconEl, folderName.firstChild);
+				titleContent.insertBefore(iconEl, titleContent.firstChild);
 			}
 		}
 	} else {
 		// Remove icon if no config or no icon
-		const allExistingIcons = folderName.querySelectorAll(`.${pluginId}-custom-icon`);
+		const allExistingIcons = titleContent.querySelectorAll(`.${pluginId}-custom-icon`);
 		allExistingIcons.forEach(icon => icon.remove());
 		
 		// Clear loading marker
-		folderName.removeAttribute('data-iconocolor-loading');
+		titleContent.removeAttribute('data-iconocolor-loading');
 		
-		if (folderIcon) {
-			const existingIconInIconArea = folderIcon.querySelectorAll(`.${pluginId}-custom-icon`);
+		if (titleIcon) {
+			const existingIconInIconArea = titleIcon.querySelectorAll(`.${pluginId}-custom-icon`);
 			existingIconInIconArea.forEach(icon => icon.remove());
 		}
 	}
@@ -481,3 +599,32 @@ export function getAllFolderElements(): HTMLElement[] {
 	return Array.from(fileExplorer.querySelectorAll('.nav-folder')) as HTMLElement[];
 }
 
+/**
+ * Gets the file path from a DOM element
+ */
+export function getFilePathFromElement(element: HTMLElement): string | null {
+	let fileTitle = element.querySelector('.nav-file-title');
+	
+	if (!fileTitle && element.classList.contains('nav-file-title')) {
+		fileTitle = element;
+	}
+	
+	if (!fileTitle) {
+		fileTitle = element.closest('.nav-file-title') as HTMLElement;
+	}
+	
+	if (!fileTitle) return null;
+
+	const dataPath = fileTitle.getAttribute('data-path');
+	return dataPath || null;
+}
+
+/**
+ * Finds all file elements in the file explorer
+ */
+export function getAllFileElements(): HTMLElement[] {
+	const fileExplorer = document.querySelector('.nav-files-container');
+	if (!fileExplorer) return [];
+
+	return Array.from(fileExplorer.querySelectorAll('.nav-file')) as HTMLElement[];
+}
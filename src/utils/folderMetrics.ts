@@ -0,0 +1,64 @@
+/**
+ * Folder activity metrics for heatmap auto-coloring
+ */
+
+import { TFile } from 'obsidian';
+import { HeatmapMetric } from '../types';
+
+/**
+ * Aggregate a metric for every folder from all files below it (recursive)
+ * - modified: latest modification time of any file
+ * - notes: number of markdown notes
+ * - size: total size in bytes
+ */
+export function computeFolderMetrics(files: TFile[], metric: HeatmapMetric): Map<string, number> {
+	const metrics = new Map<string, number>();
+	
+	for (const file of files) {
+		let value: number;
+		if (metric === 'modified') {
+			value = file.stat.mtime;
+		} else if (metric === 'notes') {
+			if (file.extension !== 'md') continue;
+			value = 1;
+		} else {
+			value = file.stat.size;
+		}
+		
+		// Credit the file to every ancestor folder
+		const pathParts = file.path.split('/');
+		for (let i = pathParts.length - 1; i > 0; i--) {
+			const folderPath = pathParts.slice(0, i).join('/');
+			const current = metrics.get(folderPath);
+			if (metric === 'modified') {
+				metrics.set(folderPath, current === undefined ? value : Math.max(current, value));
+			} else {
+				metrics.set(folderPath, (current ?? 0) + value);
+			}
+		}
+	}
+	
+	return metrics;
+}
+
+/**
+ * Map a folder's metric to a 0-1 position relative to its siblings (lowest = 0, highest = 1)
+ * Counts and sizes use a log scale so one very large folder doesn't flatten the rest
+ */
+export function getHeatmapPosition(metrics: Map<string, number>, folderPath: string, siblingPaths: string[], metric: HeatmapMetric): number {
+	const scale = (value: number) => metric === 'modified' ? value : Math.log1p(value);
+	const values = siblingPaths.map(path => metrics.get(path)).filter((value): value is number => value !== undefined).map(scale);
+	const own = metrics.get(folderPath);
+	
+	// Empty folders sit at the cold end
+	if (own === undefined || values.length === 0) {
+		return 0;
+	}
+	
+	const min = Math.min(...values);
+	const max = Math.max(...values);
+	if (max === min) {
+		return 1;
+	}
+	return (scale(own) - min) / (max - min);
+}
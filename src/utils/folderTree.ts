@@ -0,0 +1,26 @@
+/**
+ * Folder tree ordering for tree-mode auto-coloring
+ */
+
+import { TFolder } from 'obsidian';
+
+/**
+ * List every folder below root in depth-first order: each folder is followed by its subfolders
+ * before its next sibling, including folders that are collapsed in the file explorer
+ * Siblings are sorted alphabetically (case-insensitive), like root folders elsewhere, rather than
+ * by the explorer's sort order, so colors stay put when the explorer is re-sorted
+ */
+export function getFolderTreeOrder(root: TFolder): string[] {
+	const order: string[] = [];
+	const visit = (folder: TFolder) => {
+		const children = folder.children
+			.filter((child): child is TFolder => child instanceof TFolder)
+			.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+		for (const child of children) {
+			order.push(child.path);
+			visit(child);
+		}
+	};
+	visit(root);
+	return order;
+}
@@ -3,7 +3,7 @@
  * Based on obsidian-iconize approach
  */
 
-import { App, getIconIds, TFile, setIcon } from 'obsidian';
+import { App, getIcon, getIconIds, TFile, setIcon } from 'obsidian';
 import { setCssProps } from './domUtils';
 
 export interface IconInfo {
@@ -486,6 +486,24 @@ export function applyColorToSvg(svgContent: string, color?: string): string {
 }
 
 
+/**
+ * Get an icon's SVG markup for use outside the file explorer (e.g. exported CSS snippets)
+ * Returns null for icons that aren't SVGs (images and URLs)
+ */
+export async function getIconSvgMarkup(app: App, icon: string, color?: string): Promise<string | null> {
+	if (isLucideIcon(icon)) {
+		const svg = getIcon(getLucideIconName(icon));
+		return svg ? applyColorToSvg(new XMLSerializer().serializeToString(svg), color) : null;
+	}
+	if (icon.startsWith('<svg')) {
+		return applyColorToSvg(icon, color);
+	}
+	if (icon.toLowerCase().endsWith('.svg')) {
+		return loadSvgWithColor(app, icon, color);
+	}
+	return null;
+}
+
 /**
  * Render an icon as an SVG element (unified rendering for all icon types)
  * Returns a div containing the SVG, styled consistently
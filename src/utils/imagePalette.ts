@@ -0,0 +1,125 @@
+/**
+ * Palette extraction from images in the vault
+ * Images are drawn onto a small canvas and quantized with median cut
+ */
+
+import { App, TFile } from 'obsidian';
+import { rgbToHex } from './colorUtils';
+
+export const IMAGE_PALETTE_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+// Longest side images are scaled down to before sampling; plenty for dominant colors
+const SAMPLE_SIZE = 128;
+
+// A pixel's [r, g, b] channels
+type Pixel = number[];
+
+/**
+ * Get the widest channel of a set of pixels (0 = red, 1 = green, 2 = blue) and its range
+ */
+function getWidestChannel(box: Pixel[]): { channel: number; range: number } {
+	let widest = { channel: 0, range: -1 };
+	for (let channel = 0; channel < 3; channel++) {
+		let min = 255;
+		let max = 0;
+		for (const pixel of box) {
+			min = Math.min(min, pixel[channel]);
+			max = Math.max(max, pixel[channel]);
+		}
+		if (max - min > widest.range) {
+			widest = { channel, range: max - min };
+		}
+	}
+	return widest;
+}
+
+/**
+ * Quantize pixels to at most `count` colors with median cut
+ * Returns the average color of each box, most common first
+ */
+export function quantizePixels(pixels: Pixel[], count: number): string[] {
+	if (pixels.length === 0 || count < 1) return [];
+
+	const boxes: Pixel[][] = [pixels];
+	while (boxes.length < count) {
+		// Split the box whose widest channel, weighted by pixel count, is largest
+		let target = -1;
+		let targetScore = 0;
+		let targetChannel = 0;
+		boxes.forEach((box, i) => {
+			if (box.length < 2) return;
+			const { channel, range } = getWidestChannel(box);
+			const score = range * box.length;
+			if (score > targetScore) {
+				target = i;
+				targetScore = score;
+				targetChannel = channel;
+			}
+		});
+		if (target === -1) break; // Every box is a single color
+
+		const sorted = boxes[target].sort((a, b) => a[targetChannel] - b[targetChannel]);
+		const median = Math.floor(sorted.length / 2);
+		boxes.splice(target, 1, sorted.slice(0, median), sorted.slice(median));
+	}
+
+	return boxes
+		.sort((a, b) => b.length - a.length)
+		.map(box => {
+			const sum = [0, 0, 0];
+			for (const pixel of box) {
+				sum[0] += pixel[0];
+				sum[1] += pixel[1];
+				sum[2] += pixel[2];
+			}
+			const average = sum.map(channel => Math.round(channel / box.length));
+			return rgbToHex(average[0], average[1], average[2]).toUpperCase();
+		})
+		.filter((color, i, colors) => colors.indexOf(color) === i);
+}
+
+/**
+ * Load a vault image and extract its dominant colors
+ * Mostly transparent pixels are ignored
+ */
+export async function extractImagePalette(app: App, file: TFile, count: number): Promise<{ success: boolean; error?: string; colors?: string[] }> {
+	if (!IMAGE_PALETTE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+		return { success: false, error: 'Only PNG and JPEG images are supported' };
+	}
+
+	try {
+		const image = createEl('img');
+		await new Promise<void>((resolve, reject) => {
+			image.onload = () => resolve();
+			image.onerror = () => reject(new Error('Image could not be loaded'));
+			image.src = app.vault.getResourcePath(file);
+		});
+
+		const scale = Math.min(1, SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+		const width = Math.max(1, Math.round(image.naturalWidth * scale));
+		const height = Math.max(1, Math.round(image.naturalHeight * scale));
+		const canvas = createEl('canvas');
+		canvas.width = width;
+		canvas.height = height;
+		const context = canvas.getContext('2d');
+		if (!context) {
+			return { success: false, error: 'Canvas is not available' };
+		}
+		context.drawImage(image, 0, 0, width, height);
+
+		const data = context.getImageData(0, 0, width, height).data;
+		const pixels: Pixel[] = [];
+		for (let i = 0; i < data.length; i += 4) {
+			if (data[i + 3] >= 128) {
+				pixels.push([data[i], data[i + 1], data[i + 2]]);
+			}
+		}
+		if (pixels.length === 0) {
+			return { success: false, error: 'Image has no opaque pixels' };
+		}
+
+		return { success: true, colors: quantizePixels(pixels, count) };
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+	}
+}
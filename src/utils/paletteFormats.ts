@@ -0,0 +1,382 @@
+/**
+ * Palette file formats
+ * Reads and writes ColorPalette as GIMP (.gpl), Adobe swatch exchange (.ase),
+ * JSON and CSS custom-property files
+ */
+
+import { ColorPalette, ThemeVariant } from '../types';
+import { cieLabToHex, hexToRgb, rgbToHex } from './colorUtils';
+
+export type PaletteFormat = 'gpl' | 'ase' | 'json' | 'css';
+
+// Display name for each format (keys double as file extensions)
+export const PALETTE_FORMAT_NAMES: Record<PaletteFormat, string> = {
+	gpl: 'GIMP palette (.gpl)',
+	ase: 'Adobe swatch exchange (.ase)',
+	json: 'JSON (.json)',
+	css: 'CSS custom properties (.css)',
+};
+
+export interface PaletteParseResult {
+	success: boolean;
+	error?: string;
+	palette?: ColorPalette;
+	skipped?: number; // Entries that were not valid colors
+}
+
+// Palette contents read from a file, before defaults are filled in
+interface ParsedPalette {
+	name?: string;
+	colors: string[];
+	themeColors?: ColorPalette['themeColors'];
+	skipped: number;
+}
+
+/**
+ * Get the palette format for a file extension (null if unsupported)
+ */
+export function getPaletteFormat(extension: string): PaletteFormat | null {
+	const format = extension.toLowerCase();
+	return format in PALETTE_FORMAT_NAMES ? format as PaletteFormat : null;
+}
+
+/**
+ * Normalize a color string to #RRGGBB
+ * Accepts #RGB, #RRGGBB, #RRGGBBAA (alpha dropped) and rgb()/rgba() notation
+ */
+function normalizeColor(value: string): string | null {
+	const color = value.trim();
+
+	const hexMatch = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color);
+	if (hexMatch) {
+		let hex = hexMatch[1];
+		if (hex.length === 3) {
+			hex = hex.split('').map(char => char + char).join('');
+		}
+		return `#${hex.slice(0, 6).toUpperCase()}`;
+	}
+
+	const rgbMatch = /^rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})/i.exec(color);
+	if (rgbMatch) {
+		const [r, g, b] = rgbMatch.slice(1, 4).map(channel => parseInt(channel, 10));
+		if ([r, g, b].every(channel => channel <= 255)) {
+			return rgbToHex(r, g, b).toUpperCase();
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Parse a palette file
+ * The file name (without extension) is used when the file doesn't name the palette
+ */
+export function parsePalette(data: ArrayBuffer, format: PaletteFormat, fallbackName: string): PaletteParseResult {
+	try {
+		let parsed: ParsedPalette;
+		if (format === 'ase') {
+			parsed = parseAse(data);
+		} else {
+			const text = new TextDecoder().decode(data);
+			if (format === 'gpl') {
+				parsed = parseGpl(text);
+			} else if (format === 'json') {
+				parsed = parseJson(text);
+			} else {
+				parsed = parseCss(text);
+			}
+		}
+
+		if (parsed.colors.length === 0) {
+			return { success: false, error: 'No colors found in file' };
+		}
+
+		return {
+			success: true,
+			palette: {
+				name: parsed.name?.trim() || fallbackName,
+				colors: parsed.colors,
+				...(parsed.themeColors && { themeColors: parsed.themeColors }),
+			},
+			skipped: parsed.skipped,
+		};
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+	}
+}
+
+/**
+ * Parse a GIMP palette: "R G B name" lines after a "GIMP Palette" header
+ */
+function parseGpl(text: string): ParsedPalette {
+	const lines = text.split(/\r?\n/);
+	if (lines[0]?.trim() !== 'GIMP Palette') {
+		throw new Error('Missing "GIMP Palette" header');
+	}
+
+	let name: string | undefined;
+	const colors: string[] = [];
+	let skipped = 0;
+	for (const rawLine of lines.slice(1)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) continue;
+		if (line.startsWith('Name:')) {
+			name = line.slice('Name:'.length);
+			continue;
+		}
+		if (line.startsWith('Columns:')) continue;
+
+		const match = /^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})/.exec(line);
+		const channels = match?.slice(1, 4).map(channel => parseInt(channel, 10));
+		if (channels && channels.every(channel => channel <= 255)) {
+			colors.push(rgbToHex(channels[0], channels[1], channels[2]).toUpperCase());
+		} else {
+			skipped++;
+		}
+	}
+	return { name, colors, skipped };
+}
+
+/**
+ * Parse an Adobe swatch exchange file
+ * RGB, CMYK, LAB and gray swatches are converted to hex; groups are flattened
+ */
+function parseAse(data: ArrayBuffer): ParsedPalette {
+	const view = new DataView(data);
+	if (data.byteLength < 12 || String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3)) !== 'ASEF') {
+		throw new Error('Not an Adobe swatch exchange file');
+	}
+
+	const blockCount = view.getUint32(8);
+	let offset = 12;
+	let name: string | undefined;
+	const colors: string[] = [];
+	let skipped = 0;
+
+	for (let i = 0; i < blockCount; i++) {
+		if (offset + 6 > data.byteLength) {
+			throw new Error('File is truncated');
+		}
+		const blockType = view.getUint16(offset);
+		const blockLength = view.getUint32(offset + 2);
+		const blockStart = offset + 6;
+		offset = blockStart + blockLength;
+		if (offset > data.byteLength) {
+			throw new Error('File is truncated');
+		}
+
+		// Group start and color entries begin with a UTF-16 name (length includes the terminator)
+		if (blockType !== 0xC001 && blockType !== 0x0001) continue;
+		const nameLength = view.getUint16(blockStart);
+		let blockName = '';
+		for (let j = 0; j < nameLength - 1; j++) {
+			blockName += String.fromCharCode(view.getUint16(blockStart + 2 + j * 2));
+		}
+
+		if (blockType === 0xC001) {
+			// The first group names the palette
+			name = name ?? blockName;
+			continue;
+		}
+
+		const modelStart = blockStart + 2 + nameLength * 2;
+		const model = String.fromCharCode(
+			view.getUint8(modelStart), view.getUint8(modelStart + 1), view.getUint8(modelStart + 2), view.getUint8(modelStart + 3)
+		);
+		const value = (index: number) => view.getFloat32(modelStart + 4 + index * 4);
+		const channel = (fraction: number) => Math.max(0, Math.min(255, Math.round(fraction * 255)));
+
+		if (model === 'RGB ') {
+			colors.push(rgbToHex(channel(value(0)), channel(value(1)), channel(value(2))).toUpperCase());
+		} else if (model === 'CMYK') {
+			const k = value(3);
+			colors.push(rgbToHex(
+				channel((1 - value(0)) * (1 - k)),
+				channel((1 - value(1)) * (1 - k)),
+				channel((1 - value(2)) * (1 - k))
+			).toUpperCase());
+		} else if (model === 'LAB ') {
+			// Lightness is stored as 0-1
+			colors.push(cieLabToHex(value(0) * 100, value(1), value(2)).toUpperCase());
+		} else if (model === 'Gray') {
+			const gray = channel(value(0));
+			colors.push(rgbToHex(gray, gray, gray).toUpperCase());
+		} else {
+			skipped++;
+		}
+	}
+
+	return { name, colors, skipped };
+}
+
+/**
+ * Normalize a list of colors, counting the entries that aren't colors
+ */
+function normalizeColors(values: unknown[]): { colors: string[]; skipped: number } {
+	const colors: string[] = [];
+	let skipped = 0;
+	for (const value of values) {
+		const color = typeof value === 'string' ? normalizeColor(value) : null;
+		if (color) {
+			colors.push(color);
+		} else {
+			skipped++;
+		}
+	}
+	return { colors, skipped };
+}
+
+/**
+ * Parse JSON: an exported palette ({ name, colors, themeColors? }), an array of colors,
+ * or an object mapping names to colors (design tokens)
+ */
+function parseJson(text: string): ParsedPalette {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error('Invalid JSON');
+	}
+
+	if (Array.isArray(data)) {
+		return normalizeColors(data);
+	}
+	if (!data || typeof data !== 'object') {
+		throw new Error('Expected an array or object of colors');
+	}
+
+	const record = data as Record<string, unknown>;
+	if (!Array.isArray(record.colors)) {
+		return normalizeColors(Object.values(record));
+	}
+
+	const parsed: ParsedPalette = {
+		name: typeof record.name === 'string' ? record.name : undefined,
+		...normalizeColors(record.colors),
+	};
+
+	// Theme variants are only kept when every entry is a valid color
+	const themeColors = record.themeColors as Record<string, unknown> | undefined;
+	for (const theme of ['light', 'dark'] as ThemeVariant[]) {
+		const variant = themeColors?.[theme];
+		if (!Array.isArray(variant)) continue;
+		const normalized = normalizeColors(variant);
+		if (normalized.skipped === 0 && normalized.colors.length > 0) {
+			parsed.themeColors = { ...parsed.themeColors, [theme]: normalized.colors };
+		}
+	}
+	return parsed;
+}
+
+/**
+ * Parse CSS custom properties (--name: color;) in declaration order
+ */
+function parseCss(text: string): ParsedPalette {
+	const values: string[] = [];
+	const propertyPattern = /--[\w-]+\s*:\s*([^;}]+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = propertyPattern.exec(text)) !== null) {
+		values.push(match[1]);
+	}
+	return normalizeColors(values);
+}
+
+/**
+ * Convert a palette name to a slug for CSS property names
+ */
+function slugify(name: string): string {
+	return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'palette';
+}
+
+/**
+ * Serialize a palette to a file format
+ * Theme variants are kept by JSON only; the other formats hold a single color list
+ */
+export function serializePalette(palette: ColorPalette, format: PaletteFormat): ArrayBuffer {
+	if (format === 'ase') {
+		return serializeAse(palette);
+	}
+
+	let text: string;
+	if (format === 'gpl') {
+		const lines = ['GIMP Palette', `Name: ${palette.name}`, '#'];
+		palette.colors.forEach((color, i) => {
+			const rgb = hexToRgb(color);
+			if (!rgb) return;
+			const pad = (channel: number) => String(channel).padStart(3, ' ');
+			lines.push(`${pad(rgb.r)} ${pad(rgb.g)} ${pad(rgb.b)}\tColor ${i + 1}`);
+		});
+		text = lines.join('\n') + '\n';
+	} else if (format === 'json') {
+		text = JSON.stringify(palette, null, 2) + '\n';
+	} else {
+		const slug = slugify(palette.name);
+		const lines = [`/* ${palette.name.replace(/\*\//g, '')} */`, ':root {'];
+		palette.colors.forEach((color, i) => {
+			lines.push(`\t--${slug}-${i + 1}: ${color};`);
+		});
+		lines.push('}');
+		text = lines.join('\n') + '\n';
+	}
+
+	return new TextEncoder().encode(text).buffer;
+}
+
+/**
+ * Serialize a palette as an Adobe swatch exchange file: one group of RGB colors
+ */
+function serializeAse(palette: ColorPalette): ArrayBuffer {
+	const colors = palette.colors.map(color => hexToRgb(color)).filter((rgb): rgb is { r: number; g: number; b: number } => rgb !== null);
+	const nameBlockSize = (name: string) => 2 + (name.length + 1) * 2;
+	const colorNames = colors.map((_, i) => `Color ${i + 1}`);
+
+	// Header, group start, colors (name + model + 3 floats + type), group end
+	let size = 12 + 6 + nameBlockSize(palette.name) + 6;
+	for (const colorName of colorNames) {
+		size += 6 + nameBlockSize(colorName) + 4 + 12 + 2;
+	}
+
+	const buffer = new ArrayBuffer(size);
+	const view = new DataView(buffer);
+	let offset = 0;
+	const writeName = (name: string) => {
+		view.setUint16(offset, name.length + 1);
+		offset += 2;
+		for (let i = 0; i < name.length; i++) {
+			view.setUint16(offset, name.charCodeAt(i));
+			offset += 2;
+		}
+		view.setUint16(offset, 0);
+		offset += 2;
+	};
+
+	'ASEF'.split('').forEach(char => view.setUint8(offset++, char.charCodeAt(0)));
+	view.setUint16(offset, 1);
+	view.setUint16(offset + 2, 0);
+	view.setUint32(offset + 4, colors.length + 2);
+	offset += 8;
+
+	view.setUint16(offset, 0xC001);
+	view.setUint32(offset + 2, nameBlockSize(palette.name));
+	offset += 6;
+	writeName(palette.name);
+
+	colors.forEach((rgb, i) => {
+		view.setUint16(offset, 0x0001);
+		view.setUint32(offset + 2, nameBlockSize(colorNames[i]) + 4 + 12 + 2);
+		offset += 6;
+		writeName(colorNames[i]);
+		'RGB '.split('').forEach(char => view.setUint8(offset++, char.charCodeAt(0)));
+		for (const channel of [rgb.r, rgb.g, rgb.b]) {
+			view.setFloat32(offset, channel / 255);
+			offset += 4;
+		}
+		view.setUint16(offset, 2); // Normal (not global or spot) color
+		offset += 2;
+	});
+
+	view.setUint16(offset, 0xC002);
+	view.setUint32(offset + 2, 0);
+
+	return buffer;
+}
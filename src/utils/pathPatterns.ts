@@ -0,0 +1,154 @@
+/**
+ * Path pattern utilities for pattern-keyed folder configs
+ * Keys in folderConfigs are normally exact folder paths; keys with a
+ * "glob:" or "regex:" prefix match many folders at once
+ */
+
+// Examples:
+//   glob:**/Archive          any folder named Archive, at any depth
+//   glob:Projects/*/Archive  Archive directly inside any project
+//   regex:^Journal/\d{4}$    regular expression tested against the full path
+
+import { FolderConfig } from '../types';
+
+export const GLOB_PREFIX = 'glob:';
+export const REGEX_PREFIX = 'regex:';
+
+// Compiled patterns, keyed by config key (null = invalid pattern)
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Check if a config key is a pattern rather than an exact path
+ */
+export function isPatternKey(key: string): boolean {
+	return key.startsWith(GLOB_PREFIX) || key.startsWith(REGEX_PREFIX);
+}
+
+/**
+ * Convert a glob to a regular expression anchored to the full path
+ * Supports ** (any number of segments), * (within one segment) and ? (one character)
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				// "**/" matches zero or more leading segments, a trailing "**" matches anything
+				if (glob[i + 2] === '/') {
+					source += '(?:.*/)?';
+					i += 2;
+				} else {
+					source += '.*';
+					i += 1;
+				}
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compile a pattern key to a regular expression (cached)
+ * Returns null for exact-path keys and invalid patterns
+ */
+export function compilePatternKey(key: string): RegExp | null {
+	if (patternCache.has(key)) {
+		return patternCache.get(key) ?? null;
+	}
+
+	let compiled: RegExp | null = null;
+	try {
+		if (key.startsWith(GLOB_PREFIX)) {
+			compiled = globToRegExp(key.slice(GLOB_PREFIX.length));
+		} else if (key.startsWith(REGEX_PREFIX)) {
+			compiled = new RegExp(key.slice(REGEX_PREFIX.length));
+		}
+	} catch (e) {
+		console.warn(`[Iconocolor] Invalid folder config pattern: ${key}`, e);
+	}
+
+	patternCache.set(key, compiled);
+	return compiled;
+}
+
+/**
+ * Check if a pattern key matches a folder path
+ */
+export function matchesPatternKey(key: string, path: string): boolean {
+	const regex = compilePatternKey(key);
+	return regex ? regex.test(path) : false;
+}
+
+/**
+ * Count the characters of a pattern that must match literally (its specificity)
+ * Glob wildcards and regex metacharacters and classes (\d, \w, ...) don't count
+ */
+function countLiteralCharacters(key: string): number {
+	if (key.startsWith(GLOB_PREFIX)) {
+		return key.slice(GLOB_PREFIX.length).replace(/[*?]/g, '').length;
+	}
+	return key.slice(REGEX_PREFIX.length).replace(/\\[a-zA-Z]|[.*+?^$()[\]{}|]/g, '').replace(/\\/g, '').length;
+}
+
+/**
+ * Order pattern keys by precedence: most specific (most literal characters) first, ties alphabetically
+ */
+export function comparePatternPrecedence(a: string, b: string): number {
+	return countLiteralCharacters(b) - countLiteralCharacters(a) || a.localeCompare(b);
+}
+
+/**
+ * Resolve the config that applies directly to a folder (no ancestor inheritance)
+ * Precedence: exact-path entry first, then the most specific matching pattern (see comparePatternPrecedence)
+ */
+export function resolveFolderConfig(folderConfigs: Record<string, FolderConfig>, path: string): FolderConfig | undefined {
+	const exact = folderConfigs[path];
+	if (exact) {
+		return exact;
+	}
+
+	const match = Object.keys(folderConfigs)
+		.filter(key => isPatternKey(key) && matchesPatternKey(key, path))
+		.sort(comparePatternPrecedence)[0];
+	return match ? folderConfigs[match] : undefined;
+}
+
+/**
+ * Cached resolveFolderConfig for repeated lookups while styling
+ * Pattern keys are sorted once and each path's matching pattern is remembered;
+ * call invalidate() whenever pattern keys are added or removed
+ */
+export class FolderConfigResolver {
+	private patternKeys: string[] | null = null; // Pattern keys in precedence order
+	private patternMatches = new Map<string, string | null>(); // Path -> matching pattern key (null = none)
+
+	resolve(folderConfigs: Record<string, FolderConfig>, path: string): FolderConfig | undefined {
+		// Exact entries are looked up fresh, so editing a folder's own config needs no invalidation
+		const exact = folderConfigs[path];
+		if (exact) {
+			return exact;
+		}
+
+		let match = this.patternMatches.get(path);
+		if (match === undefined) {
+			if (!this.patternKeys) {
+				this.patternKeys = Object.keys(folderConfigs).filter(isPatternKey).sort(comparePatternPrecedence);
+			}
+			match = this.patternKeys.find(key => matchesPatternKey(key, path)) ?? null;
+			this.patternMatches.set(path, match);
+		}
+		return match ? folderConfigs[match] : undefined;
+	}
+
+	invalidate(): void {
+		this.patternKeys = null;
+		this.patternMatches.clear();
+	}
+}
@@ -0,0 +1,71 @@
+/**
+ * Light/dark theme helpers
+ * Theme variants are optional overrides: anything a variant leaves unset falls back to the shared value
+ */
+
+import { ColorPalette, ColorTransformation, FileConfig, IconocolorSettings, ThemeTransformations, ThemeVariant } from '../types';
+import { rgbToHex } from './colorUtils';
+import { setCssProps } from './domUtils';
+
+/**
+ * Get the active Obsidian theme from the body class
+ */
+export function getCurrentTheme(): ThemeVariant {
+	return document.body.classList.contains('theme-light') ? 'light' : 'dark';
+}
+
+/**
+ * Overlay a config's colors for the given theme onto its shared colors
+ * Works for folder and file configs (both carry the same color fields)
+ */
+export function applyThemeColors<T extends FileConfig>(config: T | undefined, theme: ThemeVariant): T | undefined {
+	const variant = config?.themeColors?.[theme];
+	if (!config || !variant) {
+		return config;
+	}
+	
+	const themed = { ...config };
+	if (variant.baseColor) themed.baseColor = variant.baseColor;
+	if (variant.iconColor) themed.iconColor = variant.iconColor;
+	if (variant.folderColor) themed.folderColor = variant.folderColor;
+	if (variant.textColor) themed.textColor = variant.textColor;
+	return themed;
+}
+
+/**
+ * Get a palette's colors for the given theme
+ */
+export function getThemePaletteColors(palette: ColorPalette, theme: ThemeVariant): string[] {
+	const variant = palette.themeColors?.[theme];
+	return variant && variant.length > 0 ? variant : palette.colors;
+}
+
+/**
+ * Get a global element transformation for the given theme
+ */
+export function getThemeTransformation(settings: IconocolorSettings, key: keyof ThemeTransformations, theme: ThemeVariant): ColorTransformation {
+	return settings.themeTransformations?.[theme]?.[key] ?? settings[key];
+}
+
+/**
+ * Get the file explorer's background color as hex
+ * Resolves --background-secondary through a probe element so theme and snippet overrides apply;
+ * a theme other than the active one can't be measured, so it gets Obsidian's default background
+ */
+export function getThemeBackgroundColor(theme: ThemeVariant = getCurrentTheme()): string {
+	const fallback = theme === 'light' ? '#f6f6f6' : '#262626';
+	if (theme !== getCurrentTheme()) {
+		return fallback;
+	}
+	
+	const probe = document.body.createDiv();
+	setCssProps(probe, { backgroundColor: 'var(--background-secondary)' });
+	const computed = getComputedStyle(probe).backgroundColor;
+	probe.remove();
+	
+	const match = /^rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)$/.exec(computed);
+	if (!match || match[4] === '0') {
+		return fallback;
+	}
+	return rgbToHex(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
+}